@@ -0,0 +1,79 @@
+/**
+ * Audio Export - Helpers for writing synthesized speech to caller-chosen files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { OpenAIFormat } from './openai-voice-engine.js';
+import { PlatformExportFormat } from './voice-intelligence.js';
+import { EchoSettings, applyEcho, decodeWav, encodeWav, getAudioDurationMs } from './audio-mixer.js';
+
+export type ExportFormat = OpenAIFormat | PlatformExportFormat;
+
+export const EXPORT_FORMATS: ExportFormat[] = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm', 'aiff'];
+
+export const AUDIO_MIME_TYPES: Record<ExportFormat, string> = {
+  mp3: 'audio/mpeg',
+  opus: 'audio/ogg',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  pcm: 'audio/L16',
+  aiff: 'audio/aiff',
+};
+
+export interface AudioExportResult {
+  engine: string;
+  voiceInfo: string;
+  filePath: string;
+  format: ExportFormat;
+  sizeBytes: number;
+  durationMs?: number; // Only measurable for uncompressed formats
+  echoApplied: boolean;
+  fallbackReason?: string;
+}
+
+/**
+ * Work out the export format from the explicit choice or the file extension
+ */
+export function resolveExportFormat(outputPath: string, format: ExportFormat | undefined, engineDefault: ExportFormat): ExportFormat {
+  if (format) return format;
+
+  const extension = path.extname(outputPath).slice(1).toLowerCase();
+  if (extension === 'aif') return 'aiff';
+  if ((EXPORT_FORMATS as string[]).includes(extension)) {
+    return extension as ExportFormat;
+  }
+  return engineDefault;
+}
+
+/**
+ * Make the output path absolute, add a missing extension and create its directory
+ */
+export function prepareExportPath(outputPath: string, format: ExportFormat): string {
+  let filePath = path.resolve(outputPath);
+  if (!path.extname(filePath)) {
+    filePath += `.${format}`;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return filePath;
+}
+
+/**
+ * Mix echo into an exported WAV file in place
+ */
+export function bakeEchoIntoWav(filePath: string, echo: EchoSettings): void {
+  const audio = decodeWav(fs.readFileSync(filePath));
+  fs.writeFileSync(filePath, encodeWav(applyEcho(audio, echo)));
+}
+
+/**
+ * Measure the written file
+ */
+export function describeExportedFile(filePath: string, format: ExportFormat): { sizeBytes: number; durationMs?: number } {
+  const buffer = fs.readFileSync(filePath);
+  return {
+    sizeBytes: buffer.length,
+    durationMs: getAudioDurationMs(buffer, format),
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Audio Mixer - In-process PCM decoding, echo rendering and WAV encoding
+ * Renders the signature echo into a single buffer so every platform plays
+ * the same sound with one player process
+ */
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  samples: Float32Array; // Interleaved, normalized to -1..1
+}
+
+export interface EchoSettings {
+  delay: number;      // ms between repeats
+  volumes: number[];  // gain for each repeat, in order
+}
+
+// OpenAI `pcm` responses are raw 24kHz 16-bit signed little-endian mono
+export const OPENAI_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * Decode a RIFF/WAVE buffer (16-bit integer or 32-bit float PCM)
+ */
+export function decodeWav(buffer: Buffer): PcmAudio {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let offset = 12;
+  let format: number | null = null;
+  let channels = 1;
+  let sampleRate = OPENAI_PCM_SAMPLE_RATE;
+  let bitsPerSample = 16;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const declaredSize = buffer.readUInt32LE(offset + 4);
+    const bodyStart = offset + 8;
+    // Streamed WAVs may declare 0xFFFFFFFF sizes - clamp to what is actually there
+    const chunkSize = Math.min(declaredSize, buffer.length - bodyStart);
+
+    if (chunkId === 'fmt ') {
+      format = buffer.readUInt16LE(bodyStart);
+      channels = buffer.readUInt16LE(bodyStart + 2);
+      sampleRate = buffer.readUInt32LE(bodyStart + 4);
+      bitsPerSample = buffer.readUInt16LE(bodyStart + 14);
+    } else if (chunkId === 'data') {
+      if (format === null) {
+        throw new Error('WAV data chunk found before fmt chunk');
+      }
+      const data = buffer.subarray(bodyStart, bodyStart + chunkSize);
+
+      if (format === 1 && bitsPerSample === 16) {
+        return { sampleRate, channels, samples: int16ToFloat(data) };
+      }
+      if (format === 3 && bitsPerSample === 32) {
+        const samples = new Float32Array(Math.floor(data.length / 4));
+        for (let i = 0; i < samples.length; i++) {
+          samples[i] = data.readFloatLE(i * 4);
+        }
+        return { sampleRate, channels, samples };
+      }
+      throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit)`);
+    }
+
+    // Chunks are word-aligned
+    offset = bodyStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Decode raw 16-bit signed little-endian PCM
+ */
+export function decodePcm16(buffer: Buffer, sampleRate: number = OPENAI_PCM_SAMPLE_RATE, channels: number = 1): PcmAudio {
+  return { sampleRate, channels, samples: int16ToFloat(buffer) };
+}
+
+/**
+ * Encode audio as a 16-bit PCM WAV file
+ */
+export function encodeWav(audio: PcmAudio): Buffer {
+  const data = encodePcm16(audio);
+  const dataSize = data.length;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(audio.channels, 22);
+  buffer.writeUInt32LE(audio.sampleRate, 24);
+  buffer.writeUInt32LE(audio.sampleRate * audio.channels * 2, 28);
+  buffer.writeUInt16LE(audio.channels * 2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(dataSize, 40);
+  data.copy(buffer, 44);
+
+  return buffer;
+}
+
+/**
+ * Encode audio as raw 16-bit little-endian PCM, the way stdin players read it
+ */
+export function encodePcm16(audio: PcmAudio): Buffer {
+  const buffer = Buffer.alloc(audio.samples.length * 2);
+  for (let i = 0; i < audio.samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, audio.samples[i]));
+    buffer.writeInt16LE(Math.round(sample * 32767), i * 2);
+  }
+  return buffer;
+}
+
+/**
+ * Mix delayed, attenuated copies of the audio into one buffer
+ * Output is extended so the last repeat is not cut off
+ */
+export function applyEcho(audio: PcmAudio, echo: EchoSettings): PcmAudio {
+  const frameCount = Math.floor(audio.samples.length / audio.channels);
+  const delayFrames = Math.round((echo.delay / 1000) * audio.sampleRate);
+  const totalFrames = frameCount + delayFrames * echo.volumes.length;
+  const mixed = new Float32Array(totalFrames * audio.channels);
+
+  mixed.set(audio.samples.subarray(0, frameCount * audio.channels));
+
+  echo.volumes.forEach((volume, index) => {
+    const offset = delayFrames * (index + 1) * audio.channels;
+    for (let i = 0; i < frameCount * audio.channels; i++) {
+      mixed[offset + i] += audio.samples[i] * volume;
+    }
+  });
+
+  // Keep the mix from clipping when repeats stack up on loud passages
+  let peak = 0;
+  for (let i = 0; i < mixed.length; i++) {
+    peak = Math.max(peak, Math.abs(mixed[i]));
+  }
+  if (peak > 1) {
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] /= peak;
+    }
+  }
+
+  return { sampleRate: audio.sampleRate, channels: audio.channels, samples: mixed };
+}
+
+/**
+ * Echo for 16-bit mono PCM that arrives in pieces
+ * Same mix as applyEcho, but clipped rather than normalized since the peak is not known up front
+ */
+export interface StreamingEcho {
+  process(chunk: Buffer): Buffer;
+  flush(): Buffer; // The remaining echo tail
+}
+
+export function createStreamingEcho(echo: EchoSettings, sampleRate: number = OPENAI_PCM_SAMPLE_RATE): StreamingEcho {
+  const delayFrames = Math.round((echo.delay / 1000) * sampleRate);
+  let history = new Float32Array(sampleRate);
+  let length = 0;
+  let leftover: Buffer = Buffer.alloc(0);
+
+  const mixRange = (start: number, end: number): Buffer => {
+    const output = Buffer.alloc((end - start) * 2);
+    for (let n = start; n < end; n++) {
+      let sample = n < length ? history[n] : 0;
+      echo.volumes.forEach((volume, index) => {
+        const source = n - delayFrames * (index + 1);
+        if (source >= 0 && source < length) sample += history[source] * volume;
+      });
+      output.writeInt16LE(Math.round(Math.max(-1, Math.min(1, sample)) * 32767), (n - start) * 2);
+    }
+    return output;
+  };
+
+  return {
+    process(chunk: Buffer): Buffer {
+      // A sample may be split across network chunks
+      const data = leftover.length > 0 ? Buffer.concat([leftover, chunk]) : chunk;
+      const samples = int16ToFloat(data);
+      leftover = data.subarray(samples.length * 2);
+
+      if (length + samples.length > history.length) {
+        const grown = new Float32Array(Math.max(history.length * 2, length + samples.length));
+        grown.set(history.subarray(0, length));
+        history = grown;
+      }
+      history.set(samples, length);
+      const start = length;
+      length += samples.length;
+      return mixRange(start, length);
+    },
+    flush(): Buffer {
+      return mixRange(length, length + delayFrames * echo.volumes.length);
+    },
+  };
+}
+
+/**
+ * Convert audio to another sample rate and channel count
+ * Linear interpolation is plenty for speech joined at segment boundaries
+ */
+export function convertPcm(audio: PcmAudio, sampleRate: number, channels: number): PcmAudio {
+  const sourceFrames = Math.floor(audio.samples.length / audio.channels);
+  const targetFrames = Math.max(0, Math.round(sourceFrames * sampleRate / audio.sampleRate));
+  const samples = new Float32Array(targetFrames * channels);
+  const ratio = audio.sampleRate / sampleRate;
+
+  for (let frame = 0; frame < targetFrames; frame++) {
+    const position = frame * ratio;
+    const left = Math.min(Math.floor(position), sourceFrames - 1);
+    const right = Math.min(left + 1, sourceFrames - 1);
+    const weight = position - left;
+
+    for (let channel = 0; channel < channels; channel++) {
+      // Downmix averages every source channel; upmix copies the nearest one
+      const read = (sourceFrame: number): number => {
+        if (channels < audio.channels) {
+          let sum = 0;
+          for (let c = 0; c < audio.channels; c++) sum += audio.samples[sourceFrame * audio.channels + c];
+          return sum / audio.channels;
+        }
+        return audio.samples[sourceFrame * audio.channels + Math.min(channel, audio.channels - 1)];
+      };
+      samples[frame * channels + channel] = read(left) * (1 - weight) + read(right) * weight;
+    }
+  }
+
+  return { sampleRate, channels, samples };
+}
+
+/**
+ * Trim silence from the edges, keeping a short pad so words are not clipped
+ */
+export function trimSilence(audio: PcmAudio, edges: { start: boolean; end: boolean }, threshold: number = 0.01, padMs: number = 30): PcmAudio {
+  const frames = Math.floor(audio.samples.length / audio.channels);
+  const isLoud = (frame: number) => {
+    for (let c = 0; c < audio.channels; c++) {
+      if (Math.abs(audio.samples[frame * audio.channels + c]) > threshold) return true;
+    }
+    return false;
+  };
+
+  let first = 0;
+  let last = frames - 1;
+  if (edges.start) while (first < frames && !isLoud(first)) first++;
+  if (edges.end) while (last > first && !isLoud(last)) last--;
+  if (first >= frames) return audio; // All silence - leave it alone
+
+  const pad = Math.round((padMs / 1000) * audio.sampleRate);
+  const start = edges.start ? Math.max(0, first - pad) : 0;
+  const end = edges.end ? Math.min(frames, last + 1 + pad) : frames;
+  return { ...audio, samples: audio.samples.slice(start * audio.channels, end * audio.channels) };
+}
+
+/**
+ * Join audio clips back to back in the first clip's format
+ */
+export function concatPcm(parts: PcmAudio[]): PcmAudio {
+  if (parts.length === 0) {
+    return { sampleRate: OPENAI_PCM_SAMPLE_RATE, channels: 1, samples: new Float32Array(0) };
+  }
+
+  const { sampleRate, channels } = parts[0];
+  const converted = parts.map(part =>
+    part.sampleRate === sampleRate && part.channels === channels ? part : convertPcm(part, sampleRate, channels)
+  );
+
+  const samples = new Float32Array(converted.reduce((sum, part) => sum + part.samples.length, 0));
+  let offset = 0;
+  for (const part of converted) {
+    samples.set(part.samples, offset);
+    offset += part.samples.length;
+  }
+  return { sampleRate, channels, samples };
+}
+
+/**
+ * Digital silence of the given length
+ */
+export function createSilence(ms: number, sampleRate: number = OPENAI_PCM_SAMPLE_RATE, channels: number = 1): PcmAudio {
+  return { sampleRate, channels, samples: new Float32Array(Math.round((ms / 1000) * sampleRate) * channels) };
+}
+
+/**
+ * Scale the signal, clipping at full scale
+ */
+export function applyGain(audio: PcmAudio, gain: number): PcmAudio {
+  if (gain === 1) return audio;
+
+  const samples = audio.samples.map(sample => Math.max(-1, Math.min(1, sample * gain)));
+  return { ...audio, samples };
+}
+
+/**
+ * Playback duration of an encoded audio file in milliseconds
+ * Only uncompressed formats can be measured; others return undefined
+ */
+export function getAudioDurationMs(buffer: Buffer, format: string): number | undefined {
+  try {
+    switch (format) {
+      case 'wav': {
+        const audio = decodeWav(buffer);
+        return Math.round((audio.samples.length / audio.channels / audio.sampleRate) * 1000);
+      }
+      case 'pcm':
+        return Math.round((buffer.length / 2 / OPENAI_PCM_SAMPLE_RATE) * 1000);
+      case 'aiff':
+        return getAiffDurationMs(buffer);
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Read frame count and sample rate from an AIFF COMM chunk
+ */
+function getAiffDurationMs(buffer: Buffer): number | undefined {
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32BE(offset + 4);
+
+    if (chunkId === 'COMM') {
+      const frames = buffer.readUInt32BE(offset + 10);
+      // Sample rate is an 80-bit IEEE extended float
+      const exponent = (buffer.readUInt16BE(offset + 16) & 0x7fff) - 16383;
+      const mantissa = buffer.readUInt32BE(offset + 18);
+      const sampleRate = mantissa * Math.pow(2, exponent - 31);
+      return sampleRate > 0 ? Math.round((frames / sampleRate) * 1000) : undefined;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return undefined;
+}
+
+function int16ToFloat(data: Buffer): Float32Array {
+  const samples = new Float32Array(Math.floor(data.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = data.readInt16LE(i * 2) / 32768;
+  }
+  return samples;
+}
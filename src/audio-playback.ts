@@ -0,0 +1,305 @@
+/**
+ * Audio Playback - Background player process management
+ * Runs player commands in their own process group so a whole utterance
+ * (including every echo copy) can be stopped, paused or resumed at once
+ */
+
+import { spawn, exec, ChildProcess } from 'child_process';
+import { promisify } from 'util';
+import { once } from 'events';
+import * as os from 'os';
+import { OPENAI_PCM_SAMPLE_RATE } from './audio-mixer.js';
+
+const execAsync = promisify(exec);
+
+export interface PlaybackHandle {
+  done: Promise<void>;
+  stop(): void;
+  pause(): boolean;
+  resume(): void;
+  firstAudio?: Promise<number>; // Streaming only: when the first audio reached the player
+}
+
+/**
+ * A program run without a shell: text and paths travel as arguments or environment, never as shell syntax
+ */
+export interface ProcessCommand {
+  file: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+export type StreamFormat = 'pcm' | 'opus';
+
+// Players that read audio from stdin, in order of preference
+const STREAM_PLAYERS: Record<StreamFormat, Array<{ binary: string; command: string }>> = {
+  pcm: [
+    { binary: 'paplay', command: `paplay --raw --format=s16le --rate=${OPENAI_PCM_SAMPLE_RATE} --channels=1` },
+    { binary: 'aplay', command: `aplay -q -t raw -f S16_LE -r ${OPENAI_PCM_SAMPLE_RATE} -c 1 -` },
+    { binary: 'ffplay', command: `ffplay -nodisp -autoexit -loglevel quiet -f s16le -ar ${OPENAI_PCM_SAMPLE_RATE} -ac 1 -i -` },
+    { binary: 'play', command: `play -q -t raw -r ${OPENAI_PCM_SAMPLE_RATE} -e signed -b 16 -c 1 -` },
+  ],
+  opus: [
+    { binary: 'ffplay', command: 'ffplay -nodisp -autoexit -loglevel quiet -i -' },
+    { binary: 'play', command: 'play -q -t opus -' },
+  ],
+};
+
+const streamPlayerCache = new Map<StreamFormat, Promise<string | null>>();
+
+/**
+ * Handle for utterances that have nothing to play
+ */
+export const EMPTY_PLAYBACK: PlaybackHandle = {
+  done: Promise.resolve(),
+  stop: () => {},
+  pause: () => true,
+  resume: () => {},
+};
+
+// Every player that is still running (echo copies included via their process group), with its stop function
+const activePlayers = new Map<ChildProcess, () => void>();
+
+/**
+ * Start a player command (a shell command line, or a program with arguments) in the background
+ * With `input`, the audio is piped into the player's stdin as it arrives
+ * `done` resolves when the command exits cleanly or is stopped,
+ * and rejects when the player itself (or the input) fails
+ */
+export function startPlayback(command: string | ProcessCommand, input?: AsyncIterable<Uint8Array>): PlaybackHandle {
+  const isWindows = os.platform() === 'win32';
+  let child: ChildProcess;
+
+  try {
+    const options = {
+      detached: !isWindows,
+      stdio: [input ? 'pipe' : 'ignore', 'ignore', 'ignore'] as Array<'pipe' | 'ignore'>,
+      windowsHide: true,
+    };
+    child = typeof command === 'string'
+      ? spawn(command, [], { ...options, shell: true })
+      : spawn(command.file, command.args, { ...options, env: { ...process.env, ...command.env } });
+  } catch (error) {
+    return EMPTY_PLAYBACK;
+  }
+
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+    // A paused process group must be continued before it can handle SIGTERM
+    signalProcessGroup(child, 'SIGCONT');
+    killProcessTree(child);
+  };
+  activePlayers.set(child, stop);
+
+  const exited = new Promise<void>((resolve, reject) => {
+    child.once('exit', (code) => {
+      activePlayers.delete(child);
+      if (code === 0 || stopped) {
+        resolve();
+      } else {
+        reject(new Error(`Audio player exited with code ${code}`));
+      }
+    });
+    child.once('error', (error) => {
+      activePlayers.delete(child);
+      reject(error);
+    });
+  });
+
+  if (!input) {
+    return {
+      done: exited,
+      stop,
+      pause: () => signalProcessGroup(child, 'SIGSTOP'),
+      resume: () => {
+        signalProcessGroup(child, 'SIGCONT');
+      },
+    };
+  }
+
+  let markFirstAudio: (at: number) => void = () => {};
+  const firstAudio = new Promise<number>(resolve => { markFirstAudio = resolve; });
+  const pumped = pipeToPlayer(child, input, markFirstAudio, () => stopped).catch((error: Error) => {
+    // A failed download leaves nothing more to play
+    if (!stopped) stop();
+    throw error;
+  });
+
+  return {
+    done: Promise.all([pumped, exited]).then(() => {}),
+    stop,
+    pause: () => signalProcessGroup(child, 'SIGSTOP'),
+    resume: () => {
+      signalProcessGroup(child, 'SIGCONT');
+    },
+    firstAudio,
+  };
+}
+
+/**
+ * Write streamed audio into the player's stdin, respecting backpressure (a paused player stalls the download)
+ */
+async function pipeToPlayer(
+  child: ChildProcess,
+  input: AsyncIterable<Uint8Array>,
+  onFirstAudio: (at: number) => void,
+  isStopped: () => boolean
+): Promise<void> {
+  const stdin = child.stdin!;
+  // The player going away (stopped, or exited early) must not crash the server with EPIPE
+  stdin.on('error', () => {});
+  let first = true;
+
+  for await (const chunk of input) {
+    if (isStopped() || stdin.destroyed) break;
+    if (chunk.length === 0) continue;
+
+    if (!stdin.write(chunk)) {
+      await Promise.race([once(stdin, 'drain'), once(child, 'exit')]);
+    }
+    if (first) {
+      first = false;
+      onFirstAudio(Date.now());
+    }
+  }
+  stdin.end();
+}
+
+/**
+ * Find a player that can read streamed audio from stdin
+ * TTS_STREAM_PLAYER_COMMAND overrides the built-in candidates; null when none is installed
+ */
+export function findStreamPlayer(format: StreamFormat): Promise<string | null> {
+  if (process.env.TTS_STREAM_PLAYER_COMMAND) {
+    return Promise.resolve(process.env.TTS_STREAM_PLAYER_COMMAND);
+  }
+
+  let found = streamPlayerCache.get(format);
+  if (!found) {
+    found = (async () => {
+      for (const candidate of STREAM_PLAYERS[format]) {
+        try {
+          await execAsync(os.platform() === 'win32' ? `where ${candidate.binary}` : `command -v ${candidate.binary}`, { timeout: 5000 });
+          return candidate.command;
+        } catch (error) {
+          // Not installed - try the next one
+        }
+      }
+      return null;
+    })();
+    streamPlayerCache.set(format, found);
+  }
+  return found;
+}
+
+/**
+ * Play an audio file with the platform's background player (no UI windows)
+ */
+export function playAudioFile(filePath: string): PlaybackHandle {
+  let command: string;
+
+  switch (os.platform()) {
+    case 'darwin':
+      command = `afplay "${filePath}"`;
+      break;
+    case 'win32':
+      command = `powershell -WindowStyle Hidden -Command "(New-Object Media.SoundPlayer '${filePath}').PlaySync();"`;
+      break;
+    case 'linux':
+      command = `(command -v paplay >/dev/null 2>&1 && paplay "${filePath}") || (command -v aplay >/dev/null 2>&1 && aplay "${filePath}")`;
+      break;
+    default:
+      return EMPTY_PLAYBACK;
+  }
+
+  return startPlayback(command);
+}
+
+/**
+ * Play audio files one after another as they become ready, behind a single handle
+ * `nextFile` resolves with the file for a position, or null after the last one
+ */
+export function playSequence(nextFile: (index: number) => Promise<string | null>): PlaybackHandle {
+  let current: PlaybackHandle | null = null;
+  let stopped = false;
+  let paused = false;
+
+  const done = (async () => {
+    for (let index = 0; !stopped; index++) {
+      const filePath = await nextFile(index);
+      if (filePath === null || stopped) return;
+
+      const playback = playAudioFile(filePath);
+      current = playback;
+      // Paused while the next file was still being synthesized
+      if (paused) playback.pause();
+      await playback.done;
+      current = null;
+    }
+  })();
+
+  return {
+    done,
+    stop: () => {
+      stopped = true;
+      current?.stop();
+    },
+    pause: () => {
+      paused = true;
+      return current ? current.pause() : os.platform() !== 'win32';
+    },
+    resume: () => {
+      paused = false;
+      current?.resume();
+    },
+  };
+}
+
+/**
+ * Kill every player that is still running (used on shutdown)
+ */
+export function stopAllPlayback(): void {
+  for (const stop of activePlayers.values()) {
+    stop();
+  }
+  activePlayers.clear();
+}
+
+function isRunning(child: ChildProcess): boolean {
+  return child.pid !== undefined && child.exitCode === null && child.signalCode === null;
+}
+
+/**
+ * Send a job-control signal to a player's process group
+ * Returns false where the platform has no job control (Windows)
+ */
+function signalProcessGroup(child: ChildProcess, signal: 'SIGSTOP' | 'SIGCONT'): boolean {
+  if (os.platform() === 'win32') return false;
+  if (!isRunning(child)) return true;
+
+  try {
+    process.kill(-child.pid!, signal);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Kill a player and everything it spawned
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (!isRunning(child)) return;
+
+  try {
+    if (os.platform() === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true });
+    } else {
+      // Negative pid targets the whole process group (detached shell + players)
+      process.kill(-child.pid!, 'SIGTERM');
+    }
+  } catch (error) {
+    // Process already gone - silent
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Engine Registry - Named lookup and priority ordering of voice engines
+ */
+
+import { VoiceEngine } from './voice-engine.js';
+
+export class VoiceEngineRegistry {
+  private engines: Map<string, VoiceEngine> = new Map();
+
+  /**
+   * Register an engine under its name, replacing any previous one
+   */
+  register(engine: VoiceEngine): void {
+    this.engines.set(engine.name, engine);
+  }
+
+  unregister(name: string): void {
+    this.engines.delete(name);
+  }
+
+  get(name: string): VoiceEngine | null {
+    return this.engines.get(name) || null;
+  }
+
+  /**
+   * All registered engines, highest priority first
+   */
+  list(): VoiceEngine[] {
+    return Array.from(this.engines.values()).sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Engines that can synthesize right now, highest priority first
+   */
+  available(): VoiceEngine[] {
+    return this.list().filter(engine => engine.isEngineAvailable());
+  }
+
+  /**
+   * Pick an engine by name if it is available, otherwise by priority
+   */
+  select(name?: string): VoiceEngine | null {
+    if (name) {
+      const requested = this.get(name);
+      if (requested && requested.isEngineAvailable()) {
+        return requested;
+      }
+    }
+    return this.available()[0] || null;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Fallback Chain - Ordered engine fallback with retries and a circuit breaker
+ * Transient failures (429, 5xx, timeouts) are retried with exponential backoff;
+ * an engine that keeps failing is skipped until its cool-down expires
+ */
+
+import { VoiceEngine, EngineError } from './voice-engine.js';
+
+export interface FallbackChainOptions {
+  order: string[];            // Preferred fallback order by engine name; empty = by priority
+  retries: number;            // Extra attempts for transient errors
+  retryBaseDelayMs: number;   // First backoff delay, doubled per attempt
+  failureThreshold: number;   // Consecutive failures that open the circuit
+  cooldownMs: number;         // How long an open circuit skips the engine
+}
+
+export type FallbackOutcome = 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * One engine's part in serving a request
+ */
+export interface FallbackStep {
+  engine: string;
+  outcome: FallbackOutcome;
+  attempts: number;
+  error?: string;
+}
+
+export interface FallbackResult<T> {
+  value: T;
+  engine: VoiceEngine;
+  steps: FallbackStep[];
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+/**
+ * Read chain settings from the environment
+ */
+export function loadFallbackChainOptions(env: NodeJS.ProcessEnv = process.env): FallbackChainOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value || '');
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+  };
+
+  return {
+    order: (env.TTS_FALLBACK_CHAIN || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean),
+    retries: Math.floor(number(env.TTS_RETRY_ATTEMPTS, 2)),
+    retryBaseDelayMs: number(env.TTS_RETRY_BASE_DELAY_MS, 500),
+    failureThreshold: Math.max(1, Math.floor(number(env.TTS_CIRCUIT_BREAKER_THRESHOLD, 3))),
+    cooldownMs: number(env.TTS_CIRCUIT_BREAKER_COOLDOWN_SECONDS, 60) * 1000,
+  };
+}
+
+/**
+ * Transient errors are worth retrying on the same engine
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof EngineError) return error.transient;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /timed? ?out|ETIMEDOUT|ECONNRESET|EAI_AGAIN/i.test(message);
+}
+
+/**
+ * Human-readable summary of the fallback decisions, or undefined when the first engine just worked
+ */
+export function describeFallbackSteps(steps: FallbackStep[], displayNames: (name: string) => string): string | undefined {
+  const decisions = steps.filter(step => step.outcome !== 'succeeded' || step.attempts > 1);
+  if (decisions.length === 0) return undefined;
+
+  return decisions.map(step => {
+    const label = displayNames(step.engine);
+    switch (step.outcome) {
+      case 'skipped':
+        return `${label} skipped (${step.error})`;
+      case 'failed':
+        return `${label} error${step.attempts > 1 ? ` after ${step.attempts} attempts` : ''}: ${step.error}`;
+      default:
+        return `${label} succeeded after ${step.attempts} attempts`;
+    }
+  }).join('; ');
+}
+
+export class FallbackChain {
+  private options: FallbackChainOptions;
+  private circuits: Map<string, CircuitState> = new Map();
+
+  constructor(options: FallbackChainOptions = loadFallbackChainOptions()) {
+    this.options = options;
+  }
+
+  /**
+   * Replace the fallback order, e.g. after a config reload; circuits are kept
+   */
+  setOrder(order: string[]): void {
+    this.options = { ...this.options, order };
+  }
+
+  /**
+   * Order candidates: the selected engine first, then the configured chain, else by priority
+   */
+  order(selected: VoiceEngine, available: VoiceEngine[]): VoiceEngine[] {
+    const rest = available.filter(engine => engine !== selected);
+    if (this.options.order.length === 0) {
+      return [selected, ...rest];
+    }
+
+    const chained = this.options.order
+      .map(name => rest.find(engine => engine.name === name))
+      .filter((engine): engine is VoiceEngine => engine !== undefined);
+    return [selected, ...chained];
+  }
+
+  /**
+   * Run an operation along the engines until one succeeds
+   * The last engine is always attempted, even with an open circuit, so a request never goes unserved
+   */
+  async run<T>(engines: VoiceEngine[], operation: (engine: VoiceEngine) => Promise<T>): Promise<FallbackResult<T>> {
+    const steps: FallbackStep[] = [];
+
+    for (let index = 0; index < engines.length; index++) {
+      const engine = engines[index];
+      const isLast = index === engines.length - 1;
+
+      const openFor = this.getOpenCircuitMs(engine.name);
+      if (openFor > 0 && !isLast) {
+        steps.push({ engine: engine.name, outcome: 'skipped', attempts: 0, error: `circuit open for ${Math.ceil(openFor / 1000)}s` });
+        continue;
+      }
+
+      let attempts = 0;
+      while (true) {
+        attempts++;
+        try {
+          const value = await operation(engine);
+          this.recordSuccess(engine.name);
+          steps.push({ engine: engine.name, outcome: 'succeeded', attempts });
+          return { value, engine, steps };
+        } catch (error) {
+          if (isTransientError(error) && attempts <= this.options.retries) {
+            await this.delay(this.options.retryBaseDelayMs * Math.pow(2, attempts - 1));
+            continue;
+          }
+
+          this.recordFailure(engine.name);
+          steps.push({ engine: engine.name, outcome: 'failed', attempts, error: (error as Error).message });
+          break;
+        }
+      }
+    }
+
+    throw new FallbackExhaustedError(steps);
+  }
+
+  /**
+   * Circuit states for diagnostics
+   */
+  getCircuitStatus(): Array<{ engine: string; consecutiveFailures: number; openForMs: number }> {
+    return Array.from(this.circuits.entries()).map(([engine, state]) => ({
+      engine,
+      consecutiveFailures: state.consecutiveFailures,
+      openForMs: Math.max(0, state.openUntil - Date.now()),
+    }));
+  }
+
+  private getOpenCircuitMs(name: string): number {
+    const state = this.circuits.get(name);
+    return state ? Math.max(0, state.openUntil - Date.now()) : 0;
+  }
+
+  private recordSuccess(name: string): void {
+    this.circuits.delete(name);
+  }
+
+  private recordFailure(name: string): void {
+    const state = this.circuits.get(name) || { consecutiveFailures: 0, openUntil: 0 };
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= this.options.failureThreshold) {
+      state.openUntil = Date.now() + this.options.cooldownMs;
+    }
+    this.circuits.set(name, state);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Every engine in the chain failed or was skipped
+ */
+export class FallbackExhaustedError extends Error {
+  public readonly steps: FallbackStep[];
+
+  constructor(steps: FallbackStep[]) {
+    const failures = steps.filter(step => step.outcome === 'failed');
+    super(failures.length === 1
+      ? failures[0].error
+      : `All engines failed: ${steps.map(step => `${step.engine}: ${step.error}`).join('; ')}`);
+    this.name = 'FallbackExhaustedError';
+    this.steps = steps;
+  }
+}
@@ -12,11 +12,25 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
 import * as os from 'os';
-import { VoiceEngineSelector, HybridVoiceOptions } from './voice-engine-selector.js';
+import { VoiceEngineSelector, HybridVoiceOptions, SpeechRequest, EngineStatus, LanguageResolution, VoiceCatalogEntry, DefaultVoice, SpeechPlan } from './voice-engine-selector.js';
+import { QUEUE_MODES, QueueMode } from './speech-queue.js';
+import { stopAllPlayback } from './audio-playback.js';
+import { SpeechJob, describeJob, isFinished } from './speech-jobs.js';
+import { AudioExportResult, ExportFormat, EXPORT_FORMATS, AUDIO_MIME_TYPES } from './audio-export.js';
+import { PronunciationLexicon, LexiconEntry, ALL_LANGUAGES } from './pronunciation-lexicon.js';
+import { VoicePersona } from './voice-personas.js';
+import { EMOTIONS, Emotion, EmotionStyle, isEmotion } from './voice-emotions.js';
+import { asSsml } from './ssml.js';
+import { PROSODY_RANGES, ProsodyOption, clampProsody } from './voice-engine.js';
+import { VoiceConfigChanges, CONFIG_ENV_OVERRIDES, getVoiceConfig, getVoiceConfigError, getVoiceConfigPath, getSessionChanges, updateVoiceConfig, watchVoiceConfig } from './voice-config.js';
 
 /**
  * AI Voice v1.2.0
@@ -69,25 +83,143 @@ class NexusVoiceHybrid {
   }
 
   /**
-   * Get information about the voice that will be used
+   * Fill in a detected language when none was given
    */
-  getUsedVoiceInfo(options: HybridVoiceOptions = {}): string {
-    return this.voiceSelector.getUsedVoiceInfo(options);
+  resolveLanguage(text: string, options: HybridVoiceOptions): { options: HybridVoiceOptions; detection: LanguageResolution | null } {
+    return this.voiceSelector.resolveLanguage(text, options);
   }
 
   /**
-   * Hybrid voice synthesis with intelligent engine selection
+   * Hybrid voice synthesis with intelligent engine selection, queued as a tracked job
    */
-  async synthesizeVoice(text: string, options: HybridVoiceOptions = {}): Promise<any> {
-    return await this.voiceSelector.synthesizeVoice(text, options);
+  speak(text: string, options: HybridVoiceOptions = {}): SpeechRequest {
+    return this.voiceSelector.speak(text, options);
+  }
+
+  /**
+   * Synthesize speech into a file instead of playing it
+   */
+  async exportVoice(text: string, outputPath: string, format?: ExportFormat, options: HybridVoiceOptions = {}): Promise<AudioExportResult> {
+    return await this.voiceSelector.exportVoice(text, outputPath, format, options);
+  }
+
+  getExportToolSchema(): any {
+    return this.voiceSelector.getExportToolSchema();
+  }
+
+  /**
+   * Speech job lookup for status reporting
+   */
+  getJob(id: string): SpeechJob | null {
+    return this.voiceSelector.getJob(id);
+  }
+
+  getRecentJobs(limit?: number): SpeechJob[] {
+    return this.voiceSelector.getRecentJobs(limit);
+  }
+
+  listJobs(): SpeechJob[] {
+    return this.voiceSelector.listJobs();
+  }
+
+  /**
+   * Voice catalogue of every registered engine, and its periodic rediscovery
+   */
+  getVoiceCatalog(): VoiceCatalogEntry[] {
+    return this.voiceSelector.getVoiceCatalog();
+  }
+
+  rediscoverVoices(): Promise<boolean> {
+    return this.voiceSelector.rediscoverVoices();
+  }
+
+  /**
+   * Engine decision for an utterance, as speak would make it
+   */
+  planSpeech(text: string, options: HybridVoiceOptions = {}): SpeechPlan {
+    return this.voiceSelector.planSpeech(text, options);
+  }
+
+  getDefaultVoices(): DefaultVoice[] {
+    return this.voiceSelector.getDefaultVoices();
+  }
+
+  getVoiceEmotions(engine: string, voiceId: string): Emotion[] {
+    return this.voiceSelector.getVoiceEmotions(engine, voiceId);
+  }
+
+  /**
+   * Playback control for the current and pending utterances
+   */
+  stopSpeaking(): void {
+    this.voiceSelector.stopSpeaking();
+  }
+
+  skip(): boolean {
+    return this.voiceSelector.skip();
+  }
+
+  pause(): boolean {
+    return this.voiceSelector.pause();
+  }
+
+  resume(): boolean {
+    return this.voiceSelector.resume();
+  }
+
+  getQueueStatus(): { speaking: boolean; paused: boolean; pending: number } {
+    return this.voiceSelector.getQueueStatus();
   }
 
   /**
    * Get engine status for diagnostics
    */
-  getEngineStatus(): { platform: boolean; openai: boolean; preferred: string } {
+  getEngineStatus(): EngineStatus {
     return this.voiceSelector.getEngineStatus();
   }
+
+  /**
+   * Built-in and configured personas
+   */
+  getPersonas(): { personas: VoicePersona[]; error: string | null } {
+    return this.voiceSelector.getPersonas();
+  }
+
+  getPersona(name: string): VoicePersona | null {
+    return this.voiceSelector.getPersona(name);
+  }
+
+  applyPersona(name: string, options: HybridVoiceOptions): HybridVoiceOptions {
+    return this.voiceSelector.applyPersona(name, options);
+  }
+
+  /**
+   * Emotion mapping table, and why the emotion file could not be read (if so)
+   */
+  getEmotionStyles(): { styles: Record<Emotion, EmotionStyle>; error: string | null } {
+    return this.voiceSelector.getEmotionStyles();
+  }
+
+  /**
+   * Attach the configured per-engine style for the options' emotion
+   */
+  applyEmotion(options: HybridVoiceOptions): HybridVoiceOptions {
+    return this.voiceSelector.applyEmotion(options);
+  }
+
+  /**
+   * Fill in the config file's default voice for the resolved language
+   */
+  applyDefaults(options: HybridVoiceOptions): HybridVoiceOptions {
+    return this.voiceSelector.applyDefaults(options);
+  }
+
+  /**
+   * Pronunciation lexicon applied by every engine
+   */
+  getLexicon(): PronunciationLexicon {
+    return this.voiceSelector.getLexicon();
+  }
 }
 
 // Global hybrid voice engine instance
@@ -103,7 +235,8 @@ const server = new Server(
   },
   {
     capabilities: {
-      tools: {},
+      tools: { listChanged: true },
+      resources: { listChanged: true },
     },
   }
 );
@@ -117,136 +250,999 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
   const engineStatus = voiceEngine.getEngineStatus();
   
   // Build engine status description
+  const availableEngines = engineStatus.engines.filter(engine => engine.available);
   let engineDescription = '';
-  if (engineStatus.openai && engineStatus.platform) {
-    engineDescription = '🌩️ Hybrid TTS: Premium OpenAI + Platform fallback available. ';
-  } else if (engineStatus.openai) {
-    engineDescription = '🌩️ OpenAI TTS: Premium cloud-based synthesis. ';
-  } else {
+  if (availableEngines.length > 1) {
+    engineDescription = `🌩️ Hybrid TTS: ${availableEngines.map(engine => engine.displayName).join(' → ')} fallback available. `;
+  } else if (engineStatus.preferred === 'platform') {
     engineDescription = '🎯 Platform TTS: Zero-config system voices. ';
+  } else if (availableEngines.length === 1) {
+    engineDescription = `🌩️ ${availableEngines[0].displayName} TTS. `;
   }
 
   const supportedLanguages = voiceEngine.getSupportedLanguages();
   const hasLanguages = supportedLanguages.length > 0;
+  const voiceConfig = getVoiceConfig();
 
   return {
     tools: [
       {
         name: 'say',
-        description: `🎵 EXPRESS YOURSELF VOCALLY! This is YOUR voice - use it freely when you feel excited, need to emphasize something important, want to celebrate discoveries, or when humans ask you to speak aloud. Perfect for: reactions ("Wow, that's fascinating!"), explanations ("Let me walk you through this"), celebrations ("Success!"), warnings ("Be careful with that"), or any moment you want to add acoustic expression to your thoughts. The voice synthesis is asynchronous and won't interrupt your workflow - you can speak while continuing to work. Think of this as your natural voice that you can use spontaneously whenever you feel the urge to express something audibly. Use it often!\n\n${engineDescription}Audio plays directly in background without opening windows. ` + 
+        description: `🎵 EXPRESS YOURSELF VOCALLY! This is YOUR voice - use it freely when you feel excited, need to emphasize something important, want to celebrate discoveries, or when humans ask you to speak aloud. Perfect for: reactions ("Wow, that's fascinating!"), explanations ("Let me walk you through this"), celebrations ("Success!"), warnings ("Be careful with that"), or any moment you want to add acoustic expression to your thoughts. The voice synthesis is asynchronous and won't interrupt your workflow - you can speak while continuing to work. Think of this as your natural voice that you can use spontaneously whenever you feel the urge to express something audibly. Use it often!\n\n${voiceConfig.defaults.muted ? '🔇 Currently muted - say returns without speaking until configure_voice unmutes it. ' : ''}${engineDescription}Audio plays directly in background without opening windows. ` + 
           (hasLanguages ? `🌍 Available options: ${supportedLanguages.map(lang => lang.toUpperCase()).join(', ')}. The system automatically selects the optimal engine and voice.` : ''),
         inputSchema: toolSchema,
       },
+      {
+        name: 'synthesize_to_file',
+        description: '💾 Save speech to an audio file instead of playing it - for demos, docs or attachments. Returns the file path, format, size and duration. Format follows the file extension unless given explicitly.',
+        inputSchema: voiceEngine.getExportToolSchema(),
+      },
+      {
+        name: 'speech_status',
+        description: '📋 Check what happened to your speech: state (queued, synthesizing, playing, done, failed, cancelled), engine actually used, fallback reason and timings. Pass a jobId from say, or omit it to see the most recent jobs.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            jobId: {
+              type: 'string',
+              description: 'Job ID returned by say (e.g. "speech-3")',
+            },
+            limit: {
+              type: 'number',
+              minimum: 1,
+              maximum: 50,
+              description: 'How many recent jobs to list when no jobId is given',
+              default: 5,
+            },
+          },
+        },
+      },
+      {
+        name: 'list_voices',
+        description: '🔎 List voices across all engines as JSON (id, engine, language, locale, quality, gender, novelty, emotions that select it), filtered as needed, plus the voice say picks by default for each language. Pass a voice id as `voice` to say to use it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            language: { type: 'string', description: 'Language code, e.g. "pl"' },
+            locale: { type: 'string', description: 'Regional locale, e.g. "en-GB" (separator and case do not matter)' },
+            gender: { type: 'string', enum: ['male', 'female'] },
+            quality: { type: 'string', enum: ['premium', 'enhanced', 'standard'] },
+            engine: { type: 'string', enum: engineStatus.engines.map(engine => engine.name) },
+            novelty: { type: 'boolean', description: 'true = only MacinTalk novelty voices (Zarvox, Bells, ...), false = hide them' },
+            expressive: { type: 'boolean', description: 'true = only voices an `emotion` selects, false = hide them' },
+            includeUnavailable: { type: 'boolean', description: 'Also list voices of engines that are not available', default: false },
+          },
+        },
+      },
+      {
+        name: 'configure_voice',
+        description: '🎛️ Change voice settings for the rest of the session: preferred engine, default voice per language, default speed, echo preset, engine fallback and mute. Only the settings given change; persist: true also writes them to the config file.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            engine: { type: 'string', enum: [...engineStatus.engines.map(engine => engine.name), 'auto'], description: 'Preferred engine; "auto" = highest priority available' },
+            voices: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Default voice per language code, e.g. { "en": "onyx", "pl": "Krzysztof" }; an empty string clears a language',
+            },
+            speed: { type: 'number', minimum: 0.25, maximum: 4.0, description: 'Default speed of OpenAI-compatible engines' },
+            echo: {
+              oneOf: [{ type: 'boolean', enum: [false] }, { type: 'string', enum: Object.keys(voiceConfig.echoPresets) }],
+              description: 'Echo preset used when echo is on, or false for no echo unless say asks for it',
+            },
+            fallback: { type: 'boolean', description: 'Fall back to other engines when the selected one fails' },
+            muted: { type: 'boolean', description: 'true = say returns without speaking and current speech stops' },
+            persist: { type: 'boolean', description: 'Also write these settings to the config file', default: false },
+          },
+        },
+      },
+      {
+        name: 'get_voice_config',
+        description: '🎛️ Show the voice settings in effect as JSON - engine, default voices, speed, echo, fallback, mute, retention - with the config file path and what this session and environment variables override.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'list_personas',
+        description: '🎭 List the voice personas say accepts as `persona`: engine, voice per language, fallback voice, speed and echo for each.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'list_pronunciations',
+        description: '📖 List the pronunciation lexicon: terms (product names, tools, acronyms) every engine replaces with a spoken form, with per-engine overrides.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            language: {
+              type: 'string',
+              description: 'Only entries for this language (plus entries for every language)',
+            },
+          },
+        },
+      },
+      {
+        name: 'add_pronunciation',
+        description: '📖 Teach every voice how to say a term, e.g. "kubectl" → "cube control". Terms with capitals (SQL) match exactly, lowercase terms in any case. Give an engine to override only that engine\'s pronunciation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            term: { type: 'string', description: 'Word as written in text, e.g. "nginx"' },
+            say: { type: 'string', description: 'Spoken form, e.g. "engine x"' },
+            language: { type: 'string', description: 'Language the entry applies to, or "*" for every language', default: ALL_LANGUAGES },
+            engine: { type: 'string', enum: engineStatus.engines.map(engine => engine.name), description: 'Only for this engine; others keep the general form' },
+            save: { type: 'boolean', description: 'Write the lexicon file so the entry survives restarts', default: true },
+          },
+          required: ['term', 'say'],
+        },
+      },
+      {
+        name: 'remove_pronunciation',
+        description: '📖 Remove a term from the pronunciation lexicon, or only one engine\'s override of it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            term: { type: 'string', description: 'Term as it was added' },
+            language: { type: 'string', description: 'Language of the entry, or "*" for every language', default: ALL_LANGUAGES },
+            engine: { type: 'string', description: 'Remove only this engine\'s override' },
+            save: { type: 'boolean', description: 'Write the lexicon file', default: true },
+          },
+          required: ['term'],
+        },
+      },
+      {
+        name: 'stop_speaking',
+        description: '🔇 Stop speaking immediately: ends the current utterance and drops everything still queued.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'skip',
+        description: '⏭️ Skip the current utterance and continue with the next queued one.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'pause',
+        description: '⏸️ Pause the current utterance. Queued utterances wait until resume is called.',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'resume',
+        description: '▶️ Resume paused speech and continue with the queue.',
+        inputSchema: { type: 'object', properties: {} },
+      },
     ],
   };
 });
 
-// Enhanced tool execution handler with hybrid synthesis
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  if (name !== 'say') {
-    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-  }
-
-  if (!args || typeof args !== 'object') {
-    throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments provided');
+/**
+ * Handle playback control tools (stop_speaking, skip, pause, resume)
+ */
+function handlePlaybackControl(name: string): string {
+  switch (name) {
+    case 'stop_speaking':
+      voiceEngine.stopSpeaking();
+      return '🔇 Speech stopped and queue cleared';
+    case 'skip':
+      return voiceEngine.skip()
+        ? `⏭️ Skipped current utterance (${voiceEngine.getQueueStatus().pending} pending)`
+        : '⏭️ Nothing to skip';
+    case 'pause':
+      return voiceEngine.pause()
+        ? '⏸️ Speech paused'
+        : '⏸️ Pausing is not supported by the audio player on this platform';
+    case 'resume':
+      return voiceEngine.resume()
+        ? '▶️ Speech resumed'
+        : '▶️ Speech was not paused';
+    default:
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
   }
+}
 
+/**
+ * Extract engine options shared by say and synthesize_to_file
+ */
+function buildHybridOptions(args: Record<string, unknown>): HybridVoiceOptions {
   const { 
-    text, 
+    engine,
     language, 
     useOpenAI, 
     openaiVoice, 
     openaiModel, 
     openaiSpeed,
+    piperVoice,
+    mixedLanguage,
+    normalize,
+    emotion,
     echo
   } = args as { 
-    text?: unknown; 
+    engine?: unknown;
     language?: unknown;
     useOpenAI?: unknown;
     openaiVoice?: unknown;
     openaiModel?: unknown;
     openaiSpeed?: unknown;
+    piperVoice?: unknown;
+    mixedLanguage?: unknown;
+    normalize?: unknown;
+    emotion?: unknown;
     echo?: unknown;
   };
 
-  if (typeof text !== 'string') {
+  const hybridOptions: HybridVoiceOptions = {};
+
+  // Engine selection by registered name
+  if (typeof engine === 'string') {
+    hybridOptions.engine = engine;
+  }
+  
+  // Traditional platform options
+  if (typeof language === 'string') {
+    hybridOptions.language = language;
+  }
+
+  // Per-language segments
+  if (typeof mixedLanguage === 'boolean') {
+    hybridOptions.mixedLanguage = mixedLanguage;
+  }
+
+  // Speech normalization
+  if (typeof normalize === 'boolean') {
+    hybridOptions.normalize = normalize;
+  }
+
+  // Expressive style
+  if (isEmotion(emotion)) {
+    hybridOptions.emotion = emotion;
+  }
+
+  // Engine-neutral prosody, clamped to the documented ranges
+  for (const option of Object.keys(PROSODY_RANGES) as ProsodyOption[]) {
+    const value = args[option];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      hybridOptions[option] = clampProsody(option, value);
+    }
+  }
+
+  // Echo effect options or preset name
+  if (typeof echo === 'boolean' || typeof echo === 'string') {
+    hybridOptions.echo = echo;
+  } else if (typeof echo === 'object' && echo !== null) {
+    hybridOptions.echo = echo as any;
+  }
+
+  // OpenAI-specific options
+  if (typeof useOpenAI === 'boolean') {
+    hybridOptions.useOpenAI = useOpenAI;
+  }
+  if (typeof openaiVoice === 'string') {
+    hybridOptions.openaiVoice = openaiVoice;
+  }
+  if (typeof openaiModel === 'string') {
+    hybridOptions.openaiModel = openaiModel;
+  }
+  if (typeof openaiSpeed === 'number') {
+    hybridOptions.openaiSpeed = openaiSpeed;
+  }
+
+  // Piper-specific options
+  if (typeof piperVoice === 'string') {
+    hybridOptions.piperVoice = piperVoice;
+  }
+
+  return hybridOptions;
+}
+
+/**
+ * Response fragment for an automatic language detection
+ */
+function describeDetection(detection: LanguageResolution | null): string {
+  if (!detection) return '';
+  return detection.applied
+    ? ` [Detected: ${detection.language.toUpperCase()} (confidence ${detection.confidence.toFixed(2)})]`
+    : ` [Detected: ${detection.language.toUpperCase()} (confidence ${detection.confidence.toFixed(2)}, too low - default voice)]`;
+}
+
+/**
+ * Resolve per-call options: explicit arguments, detected language, then persona values for anything left unset,
+ * then the config file's default voice, then the emotion's per-engine style
+ */
+function resolveVoiceOptions(text: string, args: Record<string, unknown>): { options: HybridVoiceOptions; detection: LanguageResolution | null } {
+  const { options, detection } = voiceEngine.resolveLanguage(text, buildHybridOptions(args));
+  const withPersona = typeof args.persona === 'string' ? voiceEngine.applyPersona(args.persona, options) : options;
+  return {
+    options: voiceEngine.applyEmotion(voiceEngine.applyDefaults(withPersona)),
+    detection,
+  };
+}
+
+/**
+ * Structured say result from the selector's plan and the job as it stands
+ * Once the job ran, engine, voice and cache are the ones that actually played
+ */
+function buildSayResult(
+  text: string,
+  job: SpeechJob,
+  plan: SpeechPlan,
+  options: HybridVoiceOptions,
+  detection: LanguageResolution | null
+): Record<string, unknown> {
+  // A fallback engine played: describe its rendering instead of the planned engine's
+  const played = job.engine && job.engine !== plan.engine
+    ? voiceEngine.planSpeech(text, { ...options, engine: job.engine })
+    : plan;
+
+  return {
+    jobId: job.id,
+    state: job.state,
+    engine: played.engine,
+    plannedEngine: plan.engine,
+    voiceId: played.voiceId,
+    voice: job.voiceInfo || played.voiceInfo,
+    language: played.language || null,
+    detection: detection ? { language: detection.language, confidence: detection.confidence, applied: detection.applied } : null,
+    model: played.model || null,
+    speed: played.speed,
+    echo: played.echo,
+    estimatedDurationMs: played.estimatedDurationMs,
+    cache: job.cache || played.cache,
+    fallbackReason: job.fallbackReason || null,
+    error: job.error || null,
+    emotion: options.emotion || null,
+  };
+}
+
+/**
+ * Reject unknown emotions before any work starts
+ */
+function validateEmotion(emotion: unknown): void {
+  if (emotion !== undefined && !isEmotion(emotion)) {
+    throw new McpError(ErrorCode.InvalidParams, `Emotion must be one of: ${EMOTIONS.join(', ')}`);
+  }
+}
+
+/**
+ * Reject unknown echo presets before any work starts
+ */
+function validateEcho(echo: unknown): void {
+  if (typeof echo !== 'string') return;
+  const presets = Object.keys(getVoiceConfig().echoPresets);
+  if (!presets.includes(echo)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown echo preset: ${echo} (available: ${presets.join(', ')})`);
+  }
+}
+
+/**
+ * Reject unknown personas before any work starts
+ */
+function validatePersona(persona: unknown): void {
+  if (persona === undefined) return;
+  if (typeof persona !== 'string' || !voiceEngine.getPersona(persona)) {
+    const known = voiceEngine.getPersonas().personas.map(entry => entry.name).join(', ');
+    throw new McpError(ErrorCode.InvalidParams, `Unknown persona: ${String(persona)} (available: ${known})`);
+  }
+}
+
+/**
+ * Reject Piper voices that are not installed before any work starts
+ */
+function validatePiperVoice(piperVoice: unknown): void {
+  if (piperVoice === undefined) return;
+  const piper = voiceEngine.getVoiceCatalog().find(entry => entry.engine === 'piper');
+  if (!piper?.available) return;
+  const installed = piper.voices.map(voice => voice.id);
+  if (typeof piperVoice !== 'string' || !installed.includes(piperVoice)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown Piper voice: ${String(piperVoice)} (installed: ${installed.join(', ')})`);
+  }
+}
+
+/**
+ * Handle list_voices tool
+ */
+function handleListVoices(args: Record<string, unknown> = {}): string {
+  const { language, locale, gender, quality, engine, novelty, expressive, includeUnavailable } = args as {
+    language?: unknown; locale?: unknown; gender?: unknown; quality?: unknown;
+    engine?: unknown; novelty?: unknown; expressive?: unknown; includeUnavailable?: unknown;
+  };
+  const normalizeLocale = (value: string) => value.toLowerCase().replace(/_/g, '-');
+
+  const voices = voiceEngine.getVoiceCatalog()
+    .filter(entry => entry.available || includeUnavailable === true || entry.engine === engine)
+    .filter(entry => typeof engine !== 'string' || entry.engine === engine)
+    .flatMap(entry => entry.voices.map(voice => ({
+      engine: entry.engine,
+      id: voice.id,
+      name: voice.name,
+      language: voice.language,
+      languageCode: voice.languageCode,
+      locale: voice.locale,
+      quality: voice.quality,
+      gender: voice.gender,
+      novelty: voice.novelty === true,
+      emotions: voiceEngine.getVoiceEmotions(entry.engine, voice.id),
+    })))
+    // Multilingual voices (OpenAI) match every language
+    .filter(voice => typeof language !== 'string' || voice.languageCode === 'multi'
+      || voice.languageCode === language.toLowerCase().split(/[-_]/)[0])
+    .filter(voice => typeof locale !== 'string' || (voice.locale !== undefined && normalizeLocale(voice.locale) === normalizeLocale(locale)))
+    .filter(voice => typeof gender !== 'string' || voice.gender === gender)
+    .filter(voice => typeof quality !== 'string' || voice.quality === quality)
+    .filter(voice => typeof novelty !== 'boolean' || voice.novelty === novelty)
+    .filter(voice => typeof expressive !== 'boolean' || (voice.emotions.length > 0) === expressive);
+
+  const defaults = voiceEngine.getDefaultVoices()
+    .filter(entry => typeof language !== 'string' || entry.language === language.toLowerCase().split(/[-_]/)[0]);
+
+  return JSON.stringify({ count: voices.length, voices, defaults }, null, 2);
+}
+
+/**
+ * Handle configure_voice tool
+ */
+function handleConfigureVoice(args: Record<string, unknown> = {}): string {
+  const { engine, voices, speed, echo, fallback, muted, persist } = args as {
+    engine?: unknown; voices?: unknown; speed?: unknown; echo?: unknown; fallback?: unknown; muted?: unknown; persist?: unknown;
+  };
+  const changes: VoiceConfigChanges = {};
+  const described: string[] = [];
+
+  if (engine !== undefined) {
+    const names = voiceEngine.getEngineStatus().engines.map(entry => entry.name);
+    if (typeof engine !== 'string' || (engine !== 'auto' && !names.includes(engine.toLowerCase()))) {
+      throw new McpError(ErrorCode.InvalidParams, `Engine must be one of: ${[...names, 'auto'].join(', ')}`);
+    }
+    changes.engine = engine === 'auto' ? null : engine.toLowerCase();
+    described.push(`engine: ${engine.toLowerCase()}`);
+  }
+  if (voices !== undefined) {
+    if (typeof voices !== 'object' || voices === null || Array.isArray(voices)
+        || Object.values(voices).some(voice => typeof voice !== 'string')) {
+      throw new McpError(ErrorCode.InvalidParams, 'voices must map language codes to voice ids');
+    }
+    changes.voices = Object.fromEntries(Object.entries(voices as Record<string, string>)
+      .map(([language, voice]) => [language.toLowerCase(), voice.trim() || null]));
+    described.push(...Object.entries(changes.voices).map(([language, voice]) => `${language.toUpperCase()} voice: ${voice ?? 'default'}`));
+  }
+  if (speed !== undefined) {
+    if (typeof speed !== 'number' || !(speed >= 0.25 && speed <= 4)) {
+      throw new McpError(ErrorCode.InvalidParams, 'speed must be a number from 0.25 to 4.0');
+    }
+    changes.speed = speed;
+    described.push(`speed: ${speed}`);
+  }
+  if (echo !== undefined) {
+    if (echo !== false) validateEcho(echo);
+    if (echo !== false && typeof echo !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'echo must be false or an echo preset name');
+    }
+    changes.echo = echo;
+    described.push(`echo: ${echo === false ? 'off' : echo}`);
+  }
+  for (const [name, value] of Object.entries({ fallback, muted })) {
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      throw new McpError(ErrorCode.InvalidParams, `${name} must be true or false`);
+    }
+    changes[name as 'fallback' | 'muted'] = value;
+    described.push(`${name}: ${value ? 'on' : 'off'}`);
+  }
+  if (described.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Give at least one of: engine, voices, speed, echo, fallback, muted');
+  }
+
+  // Muting also silences what is already playing or queued
+  if (changes.muted) {
+    voiceEngine.stopSpeaking();
+  }
+
+  let responseText = `🎛️ Voice settings for this session: ${described.join(', ')}`;
+  try {
+    updateVoiceConfig(changes, persist === true);
+    responseText += persist === true ? ` | Saved to ${getVoiceConfigPath()}` : ' | Not saved (persist: true writes the config file)';
+  } catch (error) {
+    throw new McpError(ErrorCode.InternalError, `Settings applied for this session but not saved: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  server.sendToolListChanged().catch(() => {});
+  return responseText;
+}
+
+/**
+ * Handle get_voice_config tool
+ */
+function handleGetVoiceConfig(): string {
+  return JSON.stringify({
+    configFile: getVoiceConfigPath(),
+    selectedEngine: voiceEngine.getEngineStatus().preferred,
+    ...getVoiceConfig(),
+    sessionChanges: getSessionChanges(),
+    environmentOverrides: CONFIG_ENV_OVERRIDES.filter(name => process.env[name]),
+  }, null, 2);
+}
+
+/**
+ * Handle list_personas tool
+ */
+function handleListPersonas(): string {
+  const { personas, error } = voiceEngine.getPersonas();
+  let responseText = `🎭 Personas (${personas.length})`;
+  if (error) {
+    responseText += `\n⚠️ Could not read persona file, using built-ins: ${error}`;
+  }
+  for (const persona of personas) {
+    const voices = Object.entries(persona.voices || {}).map(([language, voice]) => `${language.toUpperCase()}: ${voice}`);
+    if (persona.fallbackVoice) voices.push(`other: ${persona.fallbackVoice}`);
+    responseText += `\n• ${persona.name}${persona.description ? ` - ${persona.description}` : ''}`;
+    responseText += ` [Engine: ${persona.engine || 'auto'}]`;
+    if (voices.length > 0) responseText += ` [Voices: ${voices.join(', ')}]`;
+    if (persona.speed !== undefined) responseText += ` [Speed: ${persona.speed}]`;
+    if (persona.echo !== undefined) responseText += ` [Echo: ${persona.echo === false ? 'off' : 'on'}]`;
+  }
+  return responseText;
+}
+
+/**
+ * Handle synthesize_to_file tool
+ */
+async function handleSynthesizeToFile(args: Record<string, unknown>): Promise<string> {
+  const { text: input, outputPath, format } = args as { text?: unknown; outputPath?: unknown; format?: unknown };
+
+  if (typeof input !== 'string') {
     throw new McpError(ErrorCode.InvalidParams, 'Text parameter must be a string');
   }
+  const text = args.ssml === true ? asSsml(input) : input;
+  if (typeof outputPath !== 'string' || outputPath.trim().length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'outputPath parameter must be a non-empty string');
+  }
+  if (format !== undefined && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new McpError(ErrorCode.InvalidParams, `Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  validatePersona(args.persona);
+  validateEmotion(args.emotion);
+  validateEcho(args.echo);
+  validatePiperVoice(args.piperVoice);
 
   try {
-    // Build hybrid voice options
-    const hybridOptions: HybridVoiceOptions = {};
-    
-    // Traditional platform options
-    if (typeof language === 'string') {
-      hybridOptions.language = language;
+    const { options, detection } = resolveVoiceOptions(text, args);
+    const result = await voiceEngine.exportVoice(text, outputPath, format as ExportFormat | undefined, options);
+
+    let responseText = `💾 Audio saved: ${result.filePath}`;
+    responseText += ` [Format: ${result.format.toUpperCase()}]`;
+    responseText += ` [Size: ${result.sizeBytes} bytes]`;
+    responseText += result.durationMs !== undefined
+      ? ` [Duration: ${(result.durationMs / 1000).toFixed(2)}s]`
+      : ` [Duration: not measurable for ${result.format}]`;
+    responseText += ` [Engine: ${result.engine}]`;
+    responseText += describeDetection(detection);
+    if (result.echoApplied) {
+      responseText += ` [Echo baked in]`;
+    }
+    responseText += ` | Voice: "${result.voiceInfo}"`;
+    if (result.fallbackReason) {
+      responseText += ` | Fallback: ${result.fallbackReason}`;
     }
+    return responseText;
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Audio export failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
 
-    // Echo effect options
-    if (typeof echo === 'boolean') {
-      hybridOptions.echo = echo;
-    } else if (typeof echo === 'object' && echo !== null) {
-      hybridOptions.echo = echo as any;
+/**
+ * Handle speech_status tool
+ */
+function handleSpeechStatus(args: Record<string, unknown> = {}): string {
+  const { jobId, limit } = args as { jobId?: unknown; limit?: unknown };
+
+  if (typeof jobId === 'string') {
+    const job = voiceEngine.getJob(jobId);
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown speech job: ${jobId}`);
     }
+    return describeJob(job);
+  }
+
+  const queue = voiceEngine.getQueueStatus();
+  const jobs = voiceEngine.getRecentJobs(typeof limit === 'number' ? Math.max(1, Math.min(50, limit)) : 5);
+
+  let responseText = `📋 Queue: ${queue.speaking ? 'speaking' : 'idle'}${queue.paused ? ' (paused)' : ''}, ${queue.pending} pending`;
+  if (jobs.length === 0) {
+    responseText += '\nNo speech jobs yet';
+  } else {
+    responseText += '\n' + jobs.map(describeJob).join('\n');
+  }
+  return responseText;
+}
+
+/**
+ * Handle pronunciation lexicon tools (list_pronunciations, add_pronunciation, remove_pronunciation)
+ */
+function handlePronunciationTool(name: string, args: Record<string, unknown> = {}): string {
+  const lexicon = voiceEngine.getLexicon();
+  const { term, say, language, engine, save } = args as { term?: unknown; say?: unknown; language?: unknown; engine?: unknown; save?: unknown };
+
+  if (language !== undefined && typeof language !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'language parameter must be a string');
+  }
+  if (engine !== undefined && typeof engine !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'engine parameter must be a string');
+  }
 
-    // OpenAI-specific options
-    if (typeof useOpenAI === 'boolean') {
-      hybridOptions.useOpenAI = useOpenAI;
+  if (name === 'list_pronunciations') {
+    const entries = lexicon.list(language);
+    let responseText = `📖 Lexicon: ${lexicon.getFilePath()} (${entries.length} ${entries.length === 1 ? 'entry' : 'entries'})`;
+    const loadError = lexicon.getLoadError();
+    if (loadError) {
+      responseText += `\n⚠️ Could not read lexicon file: ${loadError}`;
     }
-    if (typeof openaiVoice === 'string') {
-      hybridOptions.openaiVoice = openaiVoice as any;
+    return entries.length === 0 ? responseText : responseText + '\n' + entries.map(describeLexiconEntry).join('\n');
+  }
+
+  if (typeof term !== 'string' || term.trim().length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'term parameter must be a non-empty string');
+  }
+  const entryLanguage = language || ALL_LANGUAGES;
+
+  let responseText: string;
+  if (name === 'add_pronunciation') {
+    if (typeof say !== 'string' || say.trim().length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'say parameter must be a non-empty string');
     }
-    if (typeof openaiModel === 'string') {
-      hybridOptions.openaiModel = openaiModel as any;
+    responseText = `📖 Added ${describeLexiconEntry(lexicon.add(term.trim(), entryLanguage, say.trim(), engine))}`;
+  } else {
+    if (!lexicon.remove(term.trim(), entryLanguage, engine)) {
+      throw new McpError(ErrorCode.InvalidParams, `No lexicon entry for "${term}" (${entryLanguage}${engine ? `, ${engine}` : ''})`);
     }
-    if (typeof openaiSpeed === 'number') {
-      hybridOptions.openaiSpeed = openaiSpeed;
+    responseText = `📖 Removed "${term.trim()}" (${entryLanguage}${engine ? `, ${engine} override` : ''})`;
+  }
+
+  if (save !== false) {
+    try {
+      lexicon.save();
+      responseText += ` | Saved to ${lexicon.getFilePath()}`;
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Lexicon updated but not saved: ${error instanceof Error ? error.message : String(error)}`);
     }
+  } else {
+    responseText += ' | Not saved (runtime only)';
+  }
+  return responseText;
+}
 
-    // Get voice info before synthesis
-    const usedVoice = voiceEngine.getUsedVoiceInfo(hybridOptions);
+function describeLexiconEntry(entry: LexiconEntry): string {
+  const overrides = Object.entries(entry.engines || {}).map(([engine, say]) => `${engine}: "${say}"`);
+  return `"${entry.term}" (${entry.language}) → "${entry.say}"${overrides.length > 0 ? ` [${overrides.join(', ')}]` : ''}`;
+}
 
-    // Asynchronous synthesis without blocking
-    voiceEngine.synthesizeVoice(text, hybridOptions).then((result) => {
-      // Silent completion - no console logging
-    }).catch((error) => {
-      // Silent error handling - no console logging  
-    });
+const VOICES_URI_PREFIX = 'voices://';
+const HISTORY_URI_PREFIX = 'speech://history/';
+
+/**
+ * Tell the client that the resource list changed; nothing to tell before it connected
+ */
+function notifyResourceListChanged(): void {
+  server.sendResourceListChanged().catch(() => {});
+}
+
+/**
+ * Speech history entry as JSON, without the local audio path
+ */
+function describeHistoryEntry(job: SpeechJob): Record<string, unknown> {
+  const { audioPath, ...metadata } = job;
+  return { ...metadata, audio: audioPath !== undefined && fs.existsSync(audioPath) };
+}
+
+// Voice catalogue per engine and finished utterances
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  await voiceEngine.initialize();
+
+  const voices = voiceEngine.getVoiceCatalog().map(entry => ({
+    uri: `${VOICES_URI_PREFIX}${entry.engine}`,
+    name: `${entry.displayName} voices`,
+    description: `${entry.voices.length} voices${entry.available ? '' : ' (engine unavailable)'}: id, language, quality and gender`,
+    mimeType: 'application/json',
+  }));
+
+  const history = voiceEngine.listJobs().filter(isFinished).map(job => ({
+    uri: `${HISTORY_URI_PREFIX}${job.id}`,
+    name: `${job.id}: "${job.text.substring(0, 40)}${job.text.length > 40 ? '...' : ''}"`,
+    description: `${job.state} on ${job.engine || 'no engine'}${job.audioPath ? ` - ${job.format} audio and metadata` : ' - metadata only'}`,
+    mimeType: job.audioPath ? AUDIO_MIME_TYPES[job.format as ExportFormat] || 'application/octet-stream' : 'application/json',
+  }));
+
+  return { resources: [...voices, ...history] };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: [
+    {
+      uriTemplate: `${VOICES_URI_PREFIX}{engine}`,
+      name: 'Engine voices',
+      description: 'Voices of one registered engine (platform, openai, piper, ...)',
+      mimeType: 'application/json',
+    },
+    {
+      uriTemplate: `${HISTORY_URI_PREFIX}{id}`,
+      name: 'Recorded utterance',
+      description: 'Metadata of a finished speech job, plus its audio when the engine rendered a file',
+    },
+  ],
+}));
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  await voiceEngine.initialize();
+
+  if (uri.startsWith(VOICES_URI_PREFIX)) {
+    const engine = uri.substring(VOICES_URI_PREFIX.length);
+    const entry = voiceEngine.getVoiceCatalog().find(candidate => candidate.engine === engine);
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown engine: ${engine}`);
+    }
+    const voices = entry.voices.map(({ id, name, language, languageCode, quality, gender }) => ({ id, name, language, languageCode, quality, gender }));
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify({ ...entry, voices }, null, 2) }],
+    };
+  }
+
+  if (uri.startsWith(HISTORY_URI_PREFIX)) {
+    const job = voiceEngine.getJob(uri.substring(HISTORY_URI_PREFIX.length));
+    if (!job || !isFinished(job)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown or unfinished speech job: ${uri}`);
+    }
+
+    const contents: Array<{ uri: string; mimeType: string; text?: string; blob?: string }> = [
+      { uri, mimeType: 'application/json', text: JSON.stringify(describeHistoryEntry(job), null, 2) },
+    ];
+    // Cached audio may have been evicted since
+    if (job.audioPath && fs.existsSync(job.audioPath)) {
+      contents.push({
+        uri,
+        mimeType: AUDIO_MIME_TYPES[job.format as ExportFormat] || 'application/octet-stream',
+        blob: fs.readFileSync(job.audioPath).toString('base64'),
+      });
+    }
+    return { contents };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+});
+
+// Enhanced tool execution handler with hybrid synthesis
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  if (name === 'synthesize_to_file') {
+    if (!args || typeof args !== 'object') {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments provided');
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: await handleSynthesizeToFile(args),
+        },
+      ],
+    };
+  }
+
+  if (name === 'speech_status') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handleSpeechStatus(args),
+        },
+      ],
+    };
+  }
+
+  if (name === 'list_voices') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handleListVoices(args),
+        },
+      ],
+    };
+  }
+
+  if (name === 'configure_voice') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handleConfigureVoice(args),
+        },
+      ],
+    };
+  }
+
+  if (name === 'get_voice_config') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handleGetVoiceConfig(),
+        },
+      ],
+    };
+  }
+
+  if (name === 'list_personas') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handleListPersonas(),
+        },
+      ],
+    };
+  }
+
+  if (name === 'list_pronunciations' || name === 'add_pronunciation' || name === 'remove_pronunciation') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handlePronunciationTool(name, args),
+        },
+      ],
+    };
+  }
+
+  if (name !== 'say') {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: handlePlaybackControl(name),
+        },
+      ],
+    };
+  }
+
+  if (!args || typeof args !== 'object') {
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid arguments provided');
+  }
+
+  const { text: input, queue, wait, stream, persona, emotion, ssml } = args as { 
+    text?: unknown; 
+    queue?: unknown;
+    wait?: unknown;
+    stream?: unknown;
+    persona?: unknown;
+    emotion?: unknown;
+    ssml?: unknown;
+  };
+
+  if (typeof input !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'Text parameter must be a string');
+  }
+  // Explicit SSML fragments are wrapped so every engine sees a <speak> root
+  const text = ssml === true ? asSsml(input) : input;
+
+  if (queue !== undefined && !QUEUE_MODES.includes(queue as QueueMode)) {
+    throw new McpError(ErrorCode.InvalidParams, `Queue mode must be one of: ${QUEUE_MODES.join(', ')}`);
+  }
+  validatePersona(persona);
+  validateEmotion(emotion);
+  validateEcho(args.echo);
+  validatePiperVoice(args.piperVoice);
+
+  // Muted with configure_voice: nothing is queued or played
+  if (getVoiceConfig().defaults.muted) {
+    return {
+      content: [
+        { type: 'text', text: `🔇 Muted - "${text}" was not spoken (configure_voice with muted: false to unmute)` },
+        { type: 'text', text: JSON.stringify({ jobId: null, state: 'muted' }, null, 2) },
+      ],
+    };
+  }
+
+  try {
+    // Build hybrid voice options, detecting the language when none was given, then fill in the persona
+    const { options: hybridOptions, detection } = resolveVoiceOptions(text, args);
+
+    // Speech queue scheduling
+    if (typeof queue === 'string') {
+      hybridOptions.queueMode = queue as QueueMode;
+    }
+
+    // Streamed playback for engines that support it
+    if (typeof stream === 'boolean') {
+      hybridOptions.stream = stream;
+    }
+
+    // Asynchronous synthesis without blocking - the speech queue keeps playback in order;
+    // the plan is the selector's engine decision, reported as made
+    const { job, plan, finished } = voiceEngine.speak(text, hybridOptions);
+
+    // Finished utterances appear as speech://history resources
+    finished.then(notifyResourceListChanged);
+
+    // Blocking mode: report the final outcome instead of the plan
+    if (wait === true) {
+      const finalJob = await finished;
+      const icon = finalJob.state === 'done' ? '✅' : finalJob.state === 'cancelled' ? '⏹️' : '❌';
+      const result = buildSayResult(text, finalJob, plan, hybridOptions, detection);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${icon} ${describeJob(finalJob)}${describeDetection(detection)}`,
+          },
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
 
     // Build response with enhanced information
     let responseText = `🎵 Voice synthesis initiated: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`;
     
     // Add engine information
-    const engineStatus = voiceEngine.getEngineStatus();
-    if (hybridOptions.useOpenAI === true && engineStatus.openai) {
-      responseText += ` [OpenAI TTS]`;
-    } else if (hybridOptions.useOpenAI === false) {
-      responseText += ` [Platform TTS]`;
-    } else if (engineStatus.openai) {
-      responseText += ` [Auto: OpenAI preferred]`;
-    } else {
-      responseText += ` [Platform TTS]`;
-    }
+    const engineName = plan.engineDisplayName;
+    const explicitEngine = hybridOptions.engine !== undefined || hybridOptions.useOpenAI !== undefined;
+    responseText += explicitEngine || voiceEngine.getEngineStatus().engines.filter(engine => engine.available).length === 1
+      ? ` [${engineName} TTS]`
+      : ` [Auto: ${engineName} preferred]`;
 
     // Add language/voice information
-    if (language) {
-      responseText += ` [Language: ${(language as string).toUpperCase()}]`;
-    } else if (openaiVoice) {
-      responseText += ` [Voice: ${(openaiVoice as string).toUpperCase()}]`;
+    if (detection) {
+      responseText += describeDetection(detection);
+    } else if (hybridOptions.language) {
+      responseText += ` [Language: ${hybridOptions.language.toUpperCase()}]`;
+    } else if (hybridOptions.openaiVoice) {
+      responseText += ` [Voice: ${hybridOptions.openaiVoice.toUpperCase()}]`;
     } else {
       responseText += ` [System default]`;
     }
 
-    responseText += ` | Voice: "${usedVoice}"`;
+    if (typeof persona === 'string') {
+      responseText += ` [Persona: ${persona}]`;
+    }
+
+    if (hybridOptions.emotion) {
+      responseText += ` [Emotion: ${hybridOptions.emotion}]`;
+      const emotionError = voiceEngine.getEmotionStyles().error;
+      if (emotionError) {
+        responseText += ` [⚠️ Emotion file ignored: ${emotionError}]`;
+      }
+    }
+
+    responseText += ` | Voice: "${plan.engineDisplayName} ${plan.voiceInfo}"`;
+
+    if (plan.segments.length > 1) {
+      responseText += ` [Segments: ${plan.segments.map(language => (language || 'default').toUpperCase()).join(' → ')}]`;
+    } else if (plan.chunks > 1) {
+      responseText += ` [Chunks: ${plan.chunks}]`;
+    }
+
+    if (plan.cache) {
+      responseText += ` [Cache: ${plan.cache}]`;
+    }
+
+    if (hybridOptions.queueMode && hybridOptions.queueMode !== 'enqueue') {
+      responseText += ` [Queue: ${hybridOptions.queueMode}]`;
+    }
 
+    responseText += ` | Job: ${job.id} (check with speech_status)`;
+
+    const result = buildSayResult(text, job, plan, hybridOptions, detection);
     return {
       content: [
         {
           type: 'text',
           text: responseText,
         },
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
       ],
     };
   } catch (error) {
@@ -257,15 +1253,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+/**
+ * Make sure no player outlives the server
+ */
+function registerShutdownHandlers(): void {
+  process.on('exit', () => stopAllPlayback());
+
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.on(signal, () => {
+      stopAllPlayback();
+      process.exit(0);
+    });
+  }
+
+  // MCP client closed the stdio pipe
+  process.stdin.on('close', () => {
+    stopAllPlayback();
+    process.exit(0);
+  });
+}
+
 /**
  * Server initialization with hybrid voice intelligence
  */
 async function main() {
+  // A broken config file stops startup instead of silently running on defaults
+  const configError = getVoiceConfigError();
+  if (configError) {
+    console.error(`Invalid config file ${configError}`);
+    process.exit(1);
+  }
+
+  registerShutdownHandlers();
+
   // Initialize hybrid voice system
   await voiceEngine.initialize();
   
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  startVoiceRediscovery();
+  startConfigWatch();
+}
+
+/**
+ * Re-read the config file when it changes; the tool schemas carry its defaults and echo presets
+ * An invalid edit keeps the previous config
+ */
+function startConfigWatch(): void {
+  watchVoiceConfig(error => {
+    if (error) {
+      console.error(`Config reload failed, keeping the previous config: ${error}`);
+      return;
+    }
+    server.sendToolListChanged().catch(() => {});
+  });
+}
+
+/**
+ * Periodically rediscover installed models and endpoint catalogues (TTS_VOICE_REFRESH_MINUTES, 0 disables)
+ * and tell the client when the voices:// resources changed
+ */
+function startVoiceRediscovery(): void {
+  const minutes = parseFloat(process.env.TTS_VOICE_REFRESH_MINUTES || '10');
+  if (!(minutes > 0)) return;
+
+  const timer = setInterval(() => {
+    voiceEngine.rediscoverVoices()
+      .then(changed => { if (changed) notifyResourceListChanged(); })
+      .catch(() => {});
+  }, minutes * 60 * 1000);
+  timer.unref();
 }
 
 // Launch server
@@ -0,0 +1,162 @@
+/**
+ * Language Detector - Offline language identification for voice selection
+ * Unicode script ranges pick the writing system; character trigram profiles,
+ * built from small embedded word samples, separate languages sharing a script
+ */
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number; // 0-1
+  method: 'script' | 'ngram';
+}
+
+interface ScriptRule {
+  name: string;
+  pattern: RegExp;
+  languages: string[]; // Most likely first
+}
+
+// Kana is checked before Han so Japanese text with kanji is not read as Chinese
+const SCRIPTS: ScriptRule[] = [
+  { name: 'kana', pattern: /[぀-ヿ]/g, languages: ['ja'] },
+  { name: 'hangul', pattern: /[가-힯ᄀ-ᇿ]/g, languages: ['ko'] },
+  { name: 'han', pattern: /[一-鿿]/g, languages: ['zh', 'ja'] },
+  { name: 'cyrillic', pattern: /[Ѐ-ӿ]/g, languages: ['ru', 'uk', 'bg', 'sr'] },
+  { name: 'greek', pattern: /[Ͱ-Ͽ]/g, languages: ['el'] },
+  { name: 'hebrew', pattern: /[֐-׿]/g, languages: ['he'] },
+  { name: 'arabic', pattern: /[؀-ۿ]/g, languages: ['ar', 'fa'] },
+  { name: 'devanagari', pattern: /[ऀ-ॿ]/g, languages: ['hi'] },
+  { name: 'thai', pattern: /[฀-๿]/g, languages: ['th'] },
+  { name: 'latin', pattern: /[a-zÀ-ɏ]/gi, languages: ['en', 'pl', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'cs', 'sv'] },
+];
+
+const SCRIPT_TESTS = SCRIPTS.map(script => ({
+  name: script.name,
+  test: new RegExp(script.pattern.source, script.pattern.flags.replace('g', '')),
+}));
+
+// Frequent words per language; trigram profiles are derived from these at load time
+const SAMPLE_TEXT: Record<string, string> = {
+  en: 'the and to of a in is that it for you was with on as have be at not this are but they his from had she which or we an there her were one all would their what so up out if about who get them me when make can like time no just him know take people into year your good some could see other than then now look only come its over think also back after use two how our work first well way even new want because any these give day most us is are has been will should please file code update changed build test error',
+  pl: 'nie się na jest to że do w z jak co ale tak po już od mnie jego tylko przez jestem dla czy bardzo może być ten był są ich tego kiedy jeszcze wszystko gdzie sobie tym który która które oraz został została zostało plik kod został zaktualizowany zmiana błąd dziękuję proszę dzień dobry cześć wiadomość jeśli więc także przed między właśnie będzie można trzeba żeby chcę wiem mówić język polski zrobić teraz później wszystkie każdy często',
+  de: 'der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um am sind noch wie einem über einen so zum war haben nur oder aber vor zur bis mehr durch man sein wurde sei ich wir ihr können müssen datei wurde aktualisiert fehler danke bitte guten tag schön straße größe möchte heute immer',
+  fr: 'de la le et les des en un du une que est pour qui dans par plus pas au sur ne se ce il sont avec ou son mais comme on tout nous elle été aussi leur bien peut ces deux même fait où très faire était sans être avoir fichier mis à jour erreur merci bonjour voilà français ça après déjà toujours peut-être beaucoup',
+  es: 'de la que el en y a los del se las por un para con no una su al lo como más pero sus le ya o este sí porque esta entre cuando muy sin sobre también me hasta hay donde quien desde todo nos durante todos uno les ni contra otros ese eso ante ellos archivo actualizado error gracias hola buenos días señor año niño qué cómo está están',
+  it: 'di e il la che in a per un è del non sono una le si con dei da al lo come più ma anche io ha gli alla nel questo della ci se mi loro cosa essere fatto stato molto tutto quando perché tra ancora sempre file aggiornato errore grazie buongiorno ciao città però già così può',
+  pt: 'de a o que e do da em um para é com não uma os no se na por mais as dos como mas foi ao ele das tem à seu sua ou ser quando muito há nos já está eu também só pelo pela até isso ela entre era depois sem mesmo aos ter seus quem arquivo atualizado erro obrigado olá bom dia não são então você também ação',
+  nl: 'de het een en van ik te dat die in is niet je op met voor was zijn er aan ook maar als om dan zou of bij nog uit wat hij ze kan naar worden heeft door over geen hebben moet wordt werd deze zich tot bestand bijgewerkt fout dank goedemorgen alsjeblieft waarom wanneer altijd misschien',
+  cs: 'a se na je že v to s z do o jsem by jak ale pro tak jsou už po jeho mi jako co nebo bylo ve když jen být také byl bude který která které soubor byl aktualizován chyba děkuji prosím dobrý den ještě protože může všechno řekl tři čtyři člověk',
+  sv: 'och i att det som en på är av för med till den inte har de om ett men var jag sig från vi så kan man när år hans under också efter eller nu sin där vid mot ska skulle kommer fil uppdaterad fel tack hej god morgon också därför många här även',
+  ru: 'и в не на я что он с как а то все она так его но да ты к у же вы за бы по только ее мне было вот от меня еще нет о из ему теперь когда даже ну вдруг ли если уже или ни быть был него до вас файл обновлен ошибка спасибо пожалуйста здравствуйте',
+  uk: 'і в не на я що він з як а то все вона так його але так ти до у же ви за би по тільки її мені було ось від мене ще немає про із йому тепер коли навіть якщо вже або бути був файл оновлено помилка дякую будь ласка вітаю їх є ці це',
+};
+
+const PROFILE_SIZE = 300;
+
+type Profile = Map<string, number>;
+
+const PROFILES: Record<string, Profile> = Object.fromEntries(
+  Object.entries(SAMPLE_TEXT).map(([language, sample]) => [language, buildProfile(sample, PROFILE_SIZE)])
+);
+
+/**
+ * Trigram frequencies over words padded with spaces, normalized to unit length
+ */
+function buildProfile(text: string, limit?: number): Profile {
+  const counts = new Map<string, number>();
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) || [];
+
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      const trigram = padded.substring(i, i + 3);
+      counts.set(trigram, (counts.get(trigram) || 0) + 1);
+    }
+  }
+
+  let entries = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (limit) entries = entries.slice(0, limit);
+
+  const norm = Math.sqrt(entries.reduce((sum, [, count]) => sum + count * count, 0)) || 1;
+  return new Map(entries.map(([trigram, count]) => [trigram, count / norm]));
+}
+
+function similarity(a: Profile, b: Profile): number {
+  let dot = 0;
+  for (const [trigram, weight] of a) {
+    dot += weight * (b.get(trigram) || 0);
+  }
+  return dot;
+}
+
+/**
+ * Remove parts that say nothing about the language: code spans, URLs, paths, numbers
+ */
+function stripNonLinguistic(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/\bhttps?:\/\/\S+/g, ' ')
+    .replace(/\S+[\\/]\S+/g, ' ')
+    .replace(/\S+\.(json|ts|js|md|py|txt|yaml|yml|html|css)\b/gi, ' ')
+    .replace(/[\d_]+/g, ' ');
+}
+
+/**
+ * Writing system of a single character, or null for digits, punctuation and spaces
+ */
+export function getScript(char: string): string | null {
+  return SCRIPT_TESTS.find(script => script.test.test(char))?.name || null;
+}
+
+/**
+ * Detect the language of a text, choosing only among the given languages
+ * Returns null when nothing usable is found
+ */
+export function detectLanguage(text: string, supportedLanguages: string[]): LanguageDetection | null {
+  const cleaned = stripNonLinguistic(text);
+  const supported = new Set(supportedLanguages.map(language => language.toLowerCase()));
+  if (supported.size === 0) return null;
+
+  // Dominant script by letter count
+  const scriptCounts = SCRIPTS.map(script => ({ script, count: (cleaned.match(script.pattern) || []).length }));
+  const totalLetters = scriptCounts.reduce((sum, entry) => sum + entry.count, 0);
+  if (totalLetters < 2) return null;
+
+  const kanaCount = scriptCounts[0].count;
+  const dominant = scriptCounts.reduce((best, entry) => entry.count > best.count ? entry : best);
+  const scriptShare = Math.min(1, (dominant.script.name === 'han' ? dominant.count + kanaCount : dominant.count) / totalLetters);
+
+  let candidates = dominant.script.languages.filter(language => supported.has(language));
+  if (dominant.script.name === 'han' && kanaCount > 0 && candidates.includes('ja')) {
+    candidates = ['ja'];
+  }
+  if (candidates.length === 0) return null;
+
+  // Languages in this script without a profile can only be told apart by script
+  const scored = dominant.script.languages.filter(language => PROFILES[language]);
+  if (!candidates.some(language => PROFILES[language])) {
+    return { language: candidates[0], confidence: round(scriptShare), method: 'script' };
+  }
+
+  const textProfile = buildProfile(cleaned);
+  const scores = scored
+    .map(language => ({ language, score: similarity(textProfile, PROFILES[language]) }))
+    .sort((a, b) => b.score - a.score);
+
+  const chosen = scores.find(entry => supported.has(entry.language));
+  if (!chosen || chosen.score === 0) return null;
+
+  // Margin over the strongest other language, supported or not, damped for short texts;
+  // an unsupported language fitting better gives a negative margin and low confidence
+  const runnerUp = scores.find(entry => entry.language !== chosen.language);
+  const margin = runnerUp ? (chosen.score - runnerUp.score) / chosen.score : 1;
+  const lengthFactor = Math.min(1, 0.5 + totalLetters / 80);
+  const confidence = scriptShare * Math.max(0, Math.min(1, 0.5 + margin)) * lengthFactor;
+
+  return { language: chosen.language, confidence: round(confidence), method: 'ngram' };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
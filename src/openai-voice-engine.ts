@@ -1,14 +1,20 @@
 /**
  * OpenAI TTS Engine for MCP Nexus Voice
- * Provides premium cloud-based voice synthesis using OpenAI's TTS models
+ * Provides premium cloud-based voice synthesis using OpenAI's TTS models, and the
+ * same `/v1/audio/speech` API on self-hosted servers (Kokoro, LocalAI, ...)
  */
 
-import OpenAI from 'openai';
-import { APIError } from 'openai/error.js';
+import OpenAI, { APIError, APIConnectionTimeoutError } from 'openai';
 import fs from 'fs';
 import path from 'path';
-import { exec } from 'child_process';
 import os from 'os';
+import { EchoSettings, applyEcho, createStreamingEcho, decodeWav, decodePcm16, encodeWav } from './audio-mixer.js';
+import { StreamFormat, findStreamPlayer, startPlayback } from './audio-playback.js';
+import { SynthesisCache, createSynthesisCache } from './synthesis-cache.js';
+import { PronunciationLexicon } from './pronunciation-lexicon.js';
+import { VoiceEngine, EngineCapabilities, HybridVoiceOptions, SynthesizedAudio, AudioStream, EchoOptions, EngineError } from './voice-engine.js';
+import { VoiceInfo } from './voice-intelligence.js';
+import { DEFAULT_ECHO_PRESETS, getVoiceConfig } from './voice-config.js';
 
 // OpenAI TTS voices with their characteristics
 export const OPENAI_VOICES = {
@@ -22,60 +28,188 @@ export const OPENAI_VOICES = {
 
 export type OpenAIVoice = keyof typeof OPENAI_VOICES;
 export type OpenAIModel = 'tts-1' | 'tts-1-hd';
-export type OpenAIFormat = 'mp3' | 'opus' | 'aac' | 'flac';
-
-// Claude Signature Echo - Centralna konfiguracja
-export const CLAUDE_SIGNATURE_ECHO = {
-    delay: 110,      // ms - optimized for natural cathedral-like acoustics
-    volume: [0.3, 0.1, 0.03, 0.01],  // progressive volume decay
-    repeats: 4      // number of echo repeats
-};
-
-export interface EchoOptions {
-  delay?: number;     // ms delay (default: CLAUDE_SIGNATURE_ECHO.delay)
-  volume?: number | number[];    // echo volume 0-1 (default: CLAUDE_SIGNATURE_ECHO.volume)
-  repeats?: number;   // liczba powtórzeń (default: CLAUDE_SIGNATURE_ECHO.repeats)
+export type OpenAIFormat = 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm';
+
+export const OPENAI_FORMATS: OpenAIFormat[] = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'];
+
+// Input limit of /v1/audio/speech; longer text is chunked by the selector
+export const OPENAI_MAX_INPUT_CHARS = 4096;
+
+// Claude Signature Echo - the built-in "signature" echo preset
+export const CLAUDE_SIGNATURE_ECHO = DEFAULT_ECHO_PRESETS.signature;
+
+/**
+ * One OpenAI-compatible TTS endpoint, registered as its own engine
+ */
+export interface OpenAIEndpointConfig {
+  name: string;            // Engine name, e.g. "openai" or "kokoro"
+  displayName?: string;
+  apiKey?: string;
+  baseURL?: string;        // e.g. http://localhost:8880/v1; omitted = api.openai.com
+  voices?: string[];       // Fixed voice list; discovered from the server when omitted
+  models?: string[];       // Fixed model list; discovered from the server when omitted
+  defaultVoice?: string;
+  defaultModel?: string;
+  priority?: number;
 }
 
 export interface OpenAIVoiceOptions {
-  voice?: OpenAIVoice;
-  model?: OpenAIModel;
+  voice?: string;
+  model?: string;
   response_format?: OpenAIFormat;
   speed?: number; // 0.25 to 4.0
-  echo?: boolean | EchoOptions; // Echo effect
+  echo?: boolean | string | EchoOptions; // Echo effect or preset name
 }
 
 export interface OpenAIVoiceResponse {
   success: boolean;
   filePath?: string;
-  voiceUsed: OpenAIVoice;
-  model: OpenAIModel;
+  voiceUsed: string;
+  model: string;
   format: OpenAIFormat;
+  echoApplied?: boolean;
+  cacheHit?: boolean;
   error?: string;
+  errorStatus?: number;
+  transient?: boolean; // Rate limit, server error or timeout - worth retrying
   duration?: number;
 }
 
-export class OpenAIVoiceEngine {
+/**
+ * Resolve caller echo options against the configured echo presets
+ * Unset echo uses the default preset; returns null when echo is disabled
+ */
+export function resolveEchoSettings(echoOptions?: boolean | string | EchoOptions): EchoSettings | null {
+  if (echoOptions === false) return null;
+
+  const { defaults, echoPresets } = getVoiceConfig();
+  if (echoOptions === undefined && defaults.echo === false) return null;
+
+  // A preset name picks that preset; true and custom options start from the default preset
+  const presetName = typeof echoOptions === 'string' ? echoOptions : defaults.echo || 'signature';
+  const preset = echoPresets[presetName] || CLAUDE_SIGNATURE_ECHO;
+  const custom = typeof echoOptions === 'object' && echoOptions !== null ? echoOptions : {};
+  const delay = custom.delay || preset.delay;
+  const volume = custom.volume || preset.volume;
+  const repeats = custom.repeats || preset.repeats;
+
+  const volumes: number[] = [];
+  for (let i = 1; i <= repeats; i++) {
+    if (Array.isArray(volume)) {
+      // Use specific volume from array, or last value if array is shorter
+      volumes.push(volume[i - 1] ?? volume[volume.length - 1] ?? 0.1);
+    } else {
+      // Progressive decay from a single starting volume
+      volumes.push(Math.max(0.1, volume / i));
+    }
+  }
+
+  return { delay, volumes };
+}
+
+/**
+ * Read the endpoint list from the environment
+ * The built-in "openai" endpoint uses OPENAI_API_KEY / OPENAI_BASE_URL; extra endpoints come from
+ * TTS_ENDPOINTS="kokoro=http://localhost:8880/v1,localai=http://localhost:8080/v1" with optional
+ * TTS_ENDPOINT_<NAME>_API_KEY, _VOICES, _MODELS, _DEFAULT_VOICE, _DEFAULT_MODEL and _PRIORITY
+ */
+export function loadOpenAIEndpoints(env: NodeJS.ProcessEnv = process.env): OpenAIEndpointConfig[] {
+  const endpoints: OpenAIEndpointConfig[] = [
+    { ...readEndpointEnv('openai', env), name: 'openai', displayName: 'OpenAI', apiKey: env.OPENAI_API_KEY, baseURL: env.OPENAI_BASE_URL },
+  ];
+
+  for (const entry of (env.TTS_ENDPOINTS || '').split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+
+    const name = entry.substring(0, separator).trim().toLowerCase();
+    const baseURL = entry.substring(separator + 1).trim();
+    if (!/^[a-z][a-z0-9_-]*$/.test(name) || !baseURL) continue;
+
+    endpoints.push({ ...readEndpointEnv(name, env), name, baseURL });
+  }
+
+  return endpoints;
+}
+
+function readEndpointEnv(name: string, env: NodeJS.ProcessEnv): Partial<OpenAIEndpointConfig> {
+  const prefix = `TTS_ENDPOINT_${name.toUpperCase().replace(/-/g, '_')}_`;
+  const list = (value?: string) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+  const priority = parseFloat(env[`${prefix}PRIORITY`] || '');
+
+  return {
+    apiKey: env[`${prefix}API_KEY`],
+    voices: list(env[`${prefix}VOICES`]),
+    models: list(env[`${prefix}MODELS`]),
+    defaultVoice: env[`${prefix}DEFAULT_VOICE`],
+    defaultModel: env[`${prefix}DEFAULT_MODEL`],
+    priority: isNaN(priority) ? undefined : priority,
+  };
+}
+
+/**
+ * Pull ids out of the list shapes servers return: ["a"], [{id}], {voices: [...]}, {data: [...]}
+ */
+function extractIds(body: any, keys: string[]): string[] {
+  const list = Array.isArray(body) ? body : keys.map(key => body?.[key]).find(Array.isArray) || [];
+  return list
+    .map((item: any) => typeof item === 'string' ? item : item?.id || item?.name)
+    .filter((id: unknown): id is string => typeof id === 'string' && id.length > 0);
+}
+
+export class OpenAIVoiceEngine implements VoiceEngine {
+  public readonly name: string;
+  public readonly displayName: string;
+  public readonly priority: number;
+
   private openai: OpenAI | null = null;
   private outputDir: string;
   private isAvailable: boolean = false;
-  private defaultVoice: OpenAIVoice;
-  private defaultModel: OpenAIModel;
-  private audioPlayerCommand: string;
-
-  constructor(apiKey?: string) {
-    // Output directory setup
-    this.outputDir = path.join(os.tmpdir(), 'mcp-nexus-voice-openai');
+  private apiKey?: string;
+  private baseURL?: string;
+  private configuredVoice?: string;
+  private configuredModel?: string;
+  private voices: string[];
+  private models: string[];
+  private discoverVoices: boolean;
+  private discoverModels: boolean;
+  private cache: SynthesisCache;
+  private lexicon: PronunciationLexicon | null;
+
+  constructor(config: OpenAIEndpointConfig = { name: 'openai' }, lexicon: PronunciationLexicon | null = null) {
+    this.name = config.name;
+    this.lexicon = lexicon;
+    this.displayName = config.displayName || config.name.charAt(0).toUpperCase() + config.name.slice(1);
+    this.priority = config.priority ?? (config.name === 'openai' ? 100 : 90);
+    this.apiKey = config.apiKey && config.apiKey.trim().length > 0 ? config.apiKey : undefined;
+    this.baseURL = config.baseURL && config.baseURL.trim().length > 0 ? config.baseURL.replace(/\/+$/, '') : undefined;
+
+    // Output directory setup - one cache per endpoint
+    this.outputDir = path.join(os.tmpdir(), `mcp-nexus-voice-${config.name}`);
+    this.cache = createSynthesisCache(this.outputDir);
     
-    // Default configurations from environment or fallbacks
-    this.defaultVoice = this.getOptimalVoice();
-    this.defaultModel = (process.env.DEFAULT_TTS_MODEL as OpenAIModel) || 'tts-1';
-    this.audioPlayerCommand = this.getBackgroundAudioCommand();
-
-    // Initialize OpenAI client if API key provided
-    if (apiKey && apiKey.trim().length > 0) {
+    // Default configurations from endpoint config, environment or fallbacks
+    this.configuredVoice = config.defaultVoice;
+    this.configuredModel = config.defaultModel;
+
+    // api.openai.com has a known catalogue; self-hosted servers are asked for theirs
+    const builtInCatalogue = !this.baseURL;
+    this.voices = config.voices || (builtInCatalogue ? Object.keys(OPENAI_VOICES) : []);
+    this.models = config.models || (builtInCatalogue ? ['tts-1', 'tts-1-hd'] : []);
+    this.discoverVoices = !config.voices && !builtInCatalogue;
+    this.discoverModels = !config.models && !builtInCatalogue;
+
+    // Initialize client if an API key or a self-hosted server is configured
+    if (this.apiKey || this.baseURL) {
       try {
-        this.openai = new OpenAI({ apiKey });
+        // Self-hosted servers usually ignore the key, but the client requires one
+        // Retries are handled by the fallback chain, so the client gives up after one attempt
+        this.openai = new OpenAI({
+          apiKey: this.apiKey || 'not-needed',
+          baseURL: this.baseURL,
+          maxRetries: 0,
+          timeout: parseFloat(process.env.TTS_REQUEST_TIMEOUT_MS || '30000'),
+        });
         this.isAvailable = true;
       } catch (error) {
         this.isAvailable = false;
@@ -85,6 +219,39 @@ export class OpenAIVoiceEngine {
     }
   }
 
+  /**
+   * Enforce cache limits and discover the server's voices and models on startup
+   */
+  public async initialize(): Promise<void> {
+    if (this.isEngineAvailable()) {
+      this.evictCache();
+
+      if (this.discoverVoices) {
+        this.voices = await this.fetchCatalogue('/audio/voices', ['voices', 'data']);
+      }
+      if (this.discoverModels) {
+        this.models = await this.fetchCatalogue('/models', ['data', 'models']);
+      }
+    }
+  }
+
+  /**
+   * Fetch a list endpoint from the server; an unsupported endpoint yields an empty list
+   */
+  private async fetchCatalogue(route: string, keys: string[]): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseURL}${route}`, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return [];
+      return extractIds(await response.json(), keys);
+    } catch (error) {
+      // Server does not expose this list - voices and models stay free-form
+      return [];
+    }
+  }
+
   /**
    * Check if OpenAI TTS is available
    */
@@ -95,11 +262,18 @@ export class OpenAIVoiceEngine {
   /**
    * Get optimal voice based on Claude's characteristics and environment config
    */
-  private getOptimalVoice(): OpenAIVoice {
-    // Check environment variable first
-    const envVoice = process.env.DEFAULT_TTS_VOICE as OpenAIVoice;
-    if (envVoice && Object.keys(OPENAI_VOICES).includes(envVoice)) {
-      return envVoice;
+  private getOptimalVoice(): string {
+    if (this.configuredVoice) return this.configuredVoice;
+
+    // Config file or DEFAULT_TTS_VOICE first
+    const defaultVoice = getVoiceConfig().defaults.openaiVoice;
+    if (defaultVoice && this.voices.includes(defaultVoice)) {
+      return defaultVoice;
+    }
+
+    // Self-hosted servers: first voice they offer
+    if (this.baseURL && this.voices.length > 0 && !this.voices.includes('nova')) {
+      return this.voices[0];
     }
     
     // Following existing GDD v2.3 Quality-First algorithm preference for warm, engaging voice
@@ -107,23 +281,13 @@ export class OpenAIVoiceEngine {
   }
 
   /**
-   * Get platform-specific background audio command (no UI windows)
+   * Default model from endpoint config, config file or environment, or the server's TTS-looking models
    */
-  private getBackgroundAudioCommand(): string {
-    const platform = os.platform();
-    switch (platform) {
-      case 'darwin': 
-        // Use afplay instead of open - plays audio without opening apps/windows
-        return 'afplay';
-      case 'win32': 
-        // Use PowerShell with WindowStyle Hidden to avoid popup windows
-        return 'powershell -WindowStyle Hidden -Command "(New-Object Media.SoundPlayer \'%FILE%\').PlaySync();"';
-      case 'linux': 
-        // Use aplay (ALSA) or paplay (PulseAudio) for direct audio output
-        return 'command -v paplay >/dev/null 2>&1 && paplay || aplay';
-      default: 
-        return 'afplay'; // Default fallback
-    }
+  private getDefaultModel(): string {
+    if (this.configuredModel) return this.configuredModel;
+    if (!this.baseURL) return getVoiceConfig().defaults.openaiModel || 'tts-1';
+
+    return this.models.find(model => /tts|speech|kokoro|piper/i.test(model)) || this.models[0] || 'tts-1';
   }
 
   /**
@@ -136,294 +300,365 @@ export class OpenAIVoiceEngine {
   }
 
   /**
-   * Synthesize speech using OpenAI TTS
+   * Synthesize speech using OpenAI TTS into a cached audio file
    */
-  public async synthesizeVoice(
+  public async synthesizeAudio(
     text: string, 
     options: OpenAIVoiceOptions = {}
   ): Promise<OpenAIVoiceResponse> {
     if (!this.isAvailable || !this.openai) {
-      throw new Error('OpenAI TTS Engine is not available (no API key configured)');
+      throw new Error(`${this.displayName} TTS Engine is not available (no API key or base URL configured)`);
     }
 
     const startTime = Date.now();
     
     // Configuration with defaults from environment
-    const voice = options.voice || this.defaultVoice;
-    const model = options.model || this.defaultModel;
-    const response_format = options.response_format || 'mp3';
-    const speed = Math.max(0.25, Math.min(4.0, options.speed || parseFloat(process.env.DEFAULT_TTS_SPEED || '1.0')));
+    const voice = options.voice || this.getOptimalVoice();
+    const model = options.model || this.getDefaultModel();
+    // Echo is mixed in-process, which needs decodable PCM audio
+    const echo = resolveEchoSettings(options.echo);
+    const response_format = echo ? 'wav' : (options.response_format || 'mp3');
+    const speed = this.resolveSpeed(options.speed);
 
     try {
       this.ensureOutputDirectory();
 
-      // Call OpenAI TTS API
-      const speechResponse = await this.openai.audio.speech.create({
-        model,
-        voice,
-        input: text,
-        response_format,
-        speed,
-      });
+      // Serve repeated phrases from the cache, call the API only on a miss
+      const rawKey = SynthesisCache.key({ text, voice, model, speed, format: response_format });
+      let rawPath = this.cache.get(rawKey, response_format);
+      const cacheHit = rawPath !== null;
+
+      if (!rawPath) {
+        const speechResponse = await this.openai.audio.speech.create({
+          model,
+          voice,
+          input: text,
+          response_format,
+          speed,
+        });
+        rawPath = this.cache.put(rawKey, response_format, Buffer.from(await speechResponse.arrayBuffer()));
+      }
 
-      // Save audio file
-      const audioBuffer = Buffer.from(await speechResponse.arrayBuffer());
-      const timestamp = Date.now();
-      const filename = `openai_tts_${timestamp}.${response_format}`;
-      const filePath = path.join(this.outputDir, filename);
+      // Rendered echo variants are cached too, keyed by the source audio and echo settings
+      let filePath: string = rawPath;
+      let format: OpenAIFormat = response_format;
+      if (echo) {
+        format = 'wav';
+        const echoKey = SynthesisCache.key({ source: rawKey, delay: echo.delay, volumes: echo.volumes.join(',') });
+        filePath = this.cache.get(echoKey, format)
+          || this.cache.put(echoKey, format, this.renderEcho(fs.readFileSync(rawPath), response_format, echo));
+      }
 
-      fs.writeFileSync(filePath, audioBuffer);
-      
       const duration = Date.now() - startTime;
-      // Play audio in background without opening UI windows
-      this.playAudioInBackground(filePath, options.echo);
 
       return {
         success: true,
         filePath,
         voiceUsed: voice,
         model,
-        format: response_format,
+        format,
+        echoApplied: echo !== null,
+        cacheHit,
         duration,
       };
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      let errorMessage = 'Unknown OpenAI TTS error';
-      
-      if (error instanceof APIError) {
-        errorMessage = `OpenAI API Error (${error.status}): ${error.message}`;
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
+      const failure = this.toEngineError(error);
 
       return {
         success: false,
         voiceUsed: voice,
         model,
         format: response_format,
-        error: errorMessage,
+        error: failure.message,
+        errorStatus: failure.status,
+        transient: failure.transient,
         duration,
       };
     }
   }
 
   /**
-   * Play audio file in background without opening UI windows or interrupting other audio
+   * Classify an API failure; rate limits, server errors and timeouts are transient
    */
-  private playAudioInBackground(filePath: string, echoOptions?: boolean | EchoOptions): void {
-    const platform = os.platform();
-    
-    // Claude Signature Echo - domyślnie włączone dla OpenAI TTS
-    const defaultEnabled = true;
-    const enableEcho = echoOptions !== false; // Wyłączone tylko jeśli explicite false
-    
-    // Claude Signature Echo settings (domyślne) - używa centralnej konfiguracji
-    let echo: EchoOptions = {
-      delay: CLAUDE_SIGNATURE_ECHO.delay,
-      volume: CLAUDE_SIGNATURE_ECHO.volume,
-      repeats: CLAUDE_SIGNATURE_ECHO.repeats
-    };
-    
-    if (typeof echoOptions === 'object' && echoOptions !== null) {
-      echo = {
-        delay: echoOptions.delay || CLAUDE_SIGNATURE_ECHO.delay,
-        volume: echoOptions.volume || CLAUDE_SIGNATURE_ECHO.volume,
-        repeats: echoOptions.repeats || CLAUDE_SIGNATURE_ECHO.repeats
-      };
+  private toEngineError(error: unknown): EngineError {
+    if (error instanceof APIConnectionTimeoutError) {
+      return new EngineError(`${this.displayName} API timeout: ${error.message}`, true);
     }
-
-    let command: string;
-
-    switch (platform) {
-      case 'darwin':
-        if (enableEcho) {
-          // macOS: Use afplay with Claude Signature Echo
-          command = this.createMacOSEchoCommand(filePath, echo);
-        } else {
-          // macOS: Standard afplay (only if explicitly disabled)
-          command = `afplay "${filePath}"`;
-        }
-        break;
-      case 'win32':
-        // Windows: Use PowerShell with media player and echo support
-        if (enableEcho) {
-          command = this.createWindowsEchoCommand(filePath, echo);
-        } else {
-          command = `powershell -WindowStyle Hidden -Command "(New-Object Media.SoundPlayer '${filePath}').PlaySync();"`;
-        }
-        break;
-      case 'linux':
-        // Linux: Use PulseAudio/ALSA with echo support
-        if (enableEcho) {
-          command = this.createLinuxEchoCommand(filePath, echo);
-        } else {
-          command = `(command -v paplay >/dev/null 2>&1 && paplay "${filePath}") || (command -v aplay >/dev/null 2>&1 && aplay "${filePath}")`;
-        }
-        break;
-      default:
-        return;
+    if (error instanceof APIError) {
+      const transient = error.status === 429 || (error.status !== undefined && error.status >= 500);
+      return new EngineError(`${this.displayName} API Error (${error.status}): ${error.message}`, transient, error.status);
     }
-
-    // Execute in background silently
-    exec(command, (error: any, stdout: any, stderr: any) => {
-      // Silent execution - no logging
-    });
+    return new EngineError(error instanceof Error ? error.message : `Unknown ${this.displayName} TTS error`);
   }
 
   /**
-   * Create macOS echo command with parallel afplay processes
-   * Uses centralized Claude Signature Echo configuration
+   * VoiceEngine: stream `pcm` (or `opus`, TTS_STREAM_FORMAT) into a stdin player as it arrives
+   * Resolves once the server answered, so rejected requests still fall back; the complete audio
+   * is cached afterwards, as WAV for pcm so later buffered requests hit the same entry
    */
-  private createMacOSEchoCommand(filePath: string, echo: EchoOptions): string {
-    const commands: string[] = [];
-    
-    // Używa centralnej konfiguracji jako fallback
-    const delay = echo.delay || CLAUDE_SIGNATURE_ECHO.delay;
-    const volume = echo.volume || CLAUDE_SIGNATURE_ECHO.volume;
-    const repeats = echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats; echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats; echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats;
-    
-    // Original audio
-    commands.push(`afplay "${filePath}"`);
-    
-    // Echo repeats with custom or calculated volumes
-    for (let i = 1; i <= repeats; i++) {
-      const echoDelay = (delay * i) / 1000; // Convert ms to seconds
-      
-      let echoVolume: number;
-      if (Array.isArray(volume)) {
-        // Use specific volume from array, or last value if array is shorter
-        echoVolume = volume[i - 1] || volume[volume.length - 1] || 0.1;
+  public async openStream(text: string, options: HybridVoiceOptions): Promise<AudioStream | null> {
+    const streaming = options.stream ?? process.env.TTS_STREAMING === 'true';
+    if (!streaming || !this.isAvailable || !this.openai) return null;
+
+    const streamFormat: StreamFormat = process.env.TTS_STREAM_FORMAT === 'opus' ? 'opus' : 'pcm';
+    const player = await findStreamPlayer(streamFormat);
+    if (!player) return null;
+
+    const openaiOptions = this.toOpenAIOptions(options);
+    const voice = openaiOptions.voice || this.getOptimalVoice();
+    const model = openaiOptions.model || this.getDefaultModel();
+    const speed = this.resolveSpeed(openaiOptions.speed);
+    // Echo is mixed on the fly, which only raw PCM allows
+    const echo = streamFormat === 'pcm' ? resolveEchoSettings(openaiOptions.echo) : null;
+    const cacheFormat: OpenAIFormat = streamFormat === 'pcm' ? 'wav' : 'opus';
+
+    const input = this.pronounce(text, options);
+    const rawKey = SynthesisCache.key({ text: input, voice, model, speed, format: cacheFormat });
+    const echoKey = echo ? SynthesisCache.key({ source: rawKey, delay: echo.delay, volumes: echo.volumes.join(',') }) : null;
+    if (this.cache.has(echoKey || rawKey, cacheFormat)) return null;
+
+    let body: AsyncIterable<Uint8Array>;
+    try {
+      this.ensureOutputDirectory();
+      const response = await this.openai.audio.speech.create({ model, voice, input, response_format: streamFormat, speed });
+      body = response.body as unknown as AsyncIterable<Uint8Array>;
+    } catch (error) {
+      throw this.toEngineError(error);
+    }
+
+    const cache = this.cache;
+    const filePath = cache.entryPath(echoKey || rawKey, cacheFormat);
+    async function* received(): AsyncGenerator<Uint8Array> {
+      const chunks: Buffer[] = [];
+      const mixer = echo ? createStreamingEcho(echo) : null;
+      for await (const chunk of body) {
+        const data = Buffer.from(chunk);
+        chunks.push(data);
+        yield mixer ? mixer.process(data) : data;
+      }
+      if (mixer) yield mixer.flush();
+
+      // Only complete streams reach the cache; a stopped one is abandoned above
+      const audio = Buffer.concat(chunks);
+      if (streamFormat === 'pcm') {
+        const decoded = decodePcm16(audio);
+        cache.put(rawKey, cacheFormat, encodeWav(decoded));
+        if (echo) cache.put(echoKey!, cacheFormat, encodeWav(applyEcho(decoded, echo)));
       } else {
-        // Use progressive decay as before (volume is number type here)
-        echoVolume = Math.max(0.1, (volume as number) / i);
+        cache.put(rawKey, cacheFormat, audio);
       }
-      
-      const echoCommand = `sleep ${echoDelay}; afplay "${filePath}" -v ${echoVolume}`;
-      commands.push(echoCommand);
     }
-    
-    // Execute all commands in background with simpler approach
-    const finalCommand = commands.map(cmd => `(${cmd}) &`).join(' ');
-    return finalCommand;
+
+    return {
+      // The format of the cached file, which is what jobs and speech://history serve
+      format: cacheFormat,
+      voiceInfo: this.getVoiceInfo(voice),
+      echoApplied: echo !== null,
+      filePath,
+      play: () => startPlayback(player, received()),
+    };
   }
 
   /**
-   * Create Windows echo command with parallel PowerShell processes
-   * Uses centralized Claude Signature Echo configuration
+   * VoiceEngine: render speech to a buffer, throwing on API errors
    */
-  private createWindowsEchoCommand(filePath: string, echo: EchoOptions): string {
-    const delay = echo.delay || CLAUDE_SIGNATURE_ECHO.delay;
-    const volume = echo.volume || CLAUDE_SIGNATURE_ECHO.volume;
-    const repeats = echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats; echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats;
-    
-    const commands: string[] = [];
-    
-    // Generate echo commands with delays and volume adjustments
-    for (let i = 0; i <= repeats; i++) {
-      const echoDelay = (delay * i) / 1000; // Convert to seconds
-      let echoVolume = i === 0 ? 1 : (Array.isArray(volume) ? (volume[i-1] || 0.1) : volume);
-      
-      if (i === 0) {
-        // Original sound
-        commands.push(`(New-Object Media.SoundPlayer '${filePath}').PlaySync()`);
-      } else {
-        // Echo with delay and volume (Windows doesn't support volume control via SoundPlayer easily)
-        commands.push(`Start-Sleep -Milliseconds ${delay * i}; (New-Object Media.SoundPlayer '${filePath}').PlaySync()`);
-      }
+  public async synthesizeToBuffer(text: string, options: HybridVoiceOptions): Promise<SynthesizedAudio> {
+    const response = await this.synthesizeAudio(this.pronounce(text, options), this.toOpenAIOptions(options));
+    if (!response.success || !response.filePath) {
+      throw new EngineError(response.error || `${this.displayName} TTS synthesis failed`, response.transient === true, response.errorStatus);
     }
-    
-    // Execute all commands in background processes
-    const parallelCommands = commands.map((cmd, i) => 
-      i === 0 ? cmd : `Start-Job -ScriptBlock {${cmd}}`
-    ).join('; ');
-    
-    const finalCommand = `powershell -WindowStyle Hidden -Command "${parallelCommands}; Get-Job | Wait-Job | Remove-Job"`;
-    return finalCommand;
+
+    return {
+      buffer: fs.readFileSync(response.filePath),
+      format: response.format,
+      filePath: response.filePath,
+      voiceInfo: this.getVoiceInfo(response.voiceUsed),
+      echoApplied: response.echoApplied === true,
+      cacheHit: response.cacheHit,
+    };
   }
 
   /**
-   * Create Linux echo command with parallel audio players
-   * Uses centralized Claude Signature Echo configuration
+   * Check whether a phrase would be served from the cache
    */
-  private createLinuxEchoCommand(filePath: string, echo: EchoOptions): string {
-    const delay = echo.delay || CLAUDE_SIGNATURE_ECHO.delay;
-    const volume = echo.volume || CLAUDE_SIGNATURE_ECHO.volume;
-    const repeats = echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats; echo.repeats || CLAUDE_SIGNATURE_ECHO.repeats;
-    
-    const commands: string[] = [];
-    
-    // Generate echo commands with delays
-    for (let i = 0; i <= repeats; i++) {
-      const echoDelay = (delay * i) / 1000; // Convert to seconds
-      let echoVolume = i === 0 ? 1 : (Array.isArray(volume) ? (volume[i-1] || 0.1) : volume);
-      
-      if (i === 0) {
-        // Original sound
-        commands.push(`(command -v paplay >/dev/null 2>&1 && paplay "${filePath}") || (command -v aplay >/dev/null 2>&1 && aplay "${filePath}")`);
-      } else {
-        // Echo with delay (Linux audio players don't easily support volume control)
-        commands.push(`sleep ${echoDelay} && ((command -v paplay >/dev/null 2>&1 && paplay "${filePath}") || (command -v aplay >/dev/null 2>&1 && aplay "${filePath}"))`);
-      }
-    }
-    
-    // Execute all commands in background with parallel execution
-    const finalCommand = commands.map(cmd => `(${cmd}) &`).join(' ') + ' wait';
-    return finalCommand;
+  public isCached(text: string, options: HybridVoiceOptions): boolean {
+    const openaiOptions = this.toOpenAIOptions(options);
+    const response_format = resolveEchoSettings(openaiOptions.echo) ? 'wav' : (openaiOptions.response_format || 'mp3');
+    const key = SynthesisCache.key({
+      text: this.pronounce(text, options),
+      voice: openaiOptions.voice || this.getOptimalVoice(),
+      model: openaiOptions.model || this.getDefaultModel(),
+      speed: this.resolveSpeed(openaiOptions.speed),
+      format: response_format,
+    });
+    return this.cache.has(key, response_format);
+  }
+
+  /**
+   * Apply the pronunciation lexicon for this engine
+   */
+  private pronounce(text: string, options: HybridVoiceOptions): string {
+    return this.lexicon ? this.lexicon.apply(text, options.language, this.name) : text;
+  }
+
+  /**
+   * Map engine-neutral options onto OpenAI request options
+   */
+  private toOpenAIOptions(options: HybridVoiceOptions): OpenAIVoiceOptions {
+    // Generic and emotion voice ids only apply when this endpoint offers them; the emotion's wins
+    const offered = (voice?: string) => voice && this.voices.includes(voice) ? voice : undefined;
+    const emotion = options.emotionStyle?.openai;
+    return {
+      voice: options.openaiVoice || offered(emotion?.voice) || offered(options.voice),
+      model: options.openaiModel,
+      speed: options.openaiSpeed ?? options.rate ?? emotion?.speed,
+      response_format: OPENAI_FORMATS.includes(options.format as OpenAIFormat) ? options.format as OpenAIFormat : undefined,
+      echo: options.echo,
+    };
+  }
+
+  /**
+   * Clamp speed to the API range, defaulting from the config file or environment
+   */
+  private resolveSpeed(speed?: number): number {
+    return Math.max(0.25, Math.min(4.0, speed || getVoiceConfig().defaults.speed));
+  }
+
+  /**
+   * Mix the echo into decoded audio and re-encode it as a single WAV
+   */
+  private renderEcho(audioBuffer: Buffer, format: OpenAIFormat, echo: EchoSettings): Buffer {
+    const audio = format === 'pcm' ? decodePcm16(audioBuffer) : decodeWav(audioBuffer);
+    return encodeWav(applyEcho(audio, echo));
   }
 
   /**
    * Get voice information for display
    */
-  public getVoiceInfo(voice?: OpenAIVoice): string {
-    const selectedVoice = voice || this.defaultVoice;
-    const voiceData = OPENAI_VOICES[selectedVoice];
-    return `${selectedVoice} (${voiceData.description})`;
+  public getVoiceInfo(voice?: string): string {
+    const selectedVoice = voice || this.getOptimalVoice();
+    const voiceData = OPENAI_VOICES[selectedVoice as OpenAIVoice];
+    return voiceData ? `${selectedVoice} (${voiceData.description})` : selectedVoice;
   }
 
   /**
-   * Get all available OpenAI voices
+   * Get the endpoint's voices (built-in table, configured list or discovered from the server)
    */
-  public getAvailableVoices(): OpenAIVoice[] {
-    return Object.keys(OPENAI_VOICES) as OpenAIVoice[];
+  public getAvailableVoices(): string[] {
+    return this.voices;
   }
 
   /**
-   * Get available models
+   * Get the endpoint's models
    */
-  public getAvailableModels(): OpenAIModel[] {
-    return ['tts-1', 'tts-1-hd'];
+  public getAvailableModels(): string[] {
+    return this.models;
   }
 
   /**
-   * Clean up old temporary files (cleanup utility)
+   * VoiceEngine: OpenAI voices are multilingual, listed under a pseudo language
    */
-  public cleanupOldFiles(maxAgeHours?: number): void {
-    if (!fs.existsSync(this.outputDir)) return;
+  public listVoices(): VoiceInfo[] {
+    return this.getAvailableVoices().map(voice => {
+      const gender = OPENAI_VOICES[voice as OpenAIVoice]?.gender;
+      return {
+        id: voice,
+        name: voice,
+        language: 'Multilingual',
+        languageCode: 'multi',
+        quality: this.baseURL ? 'enhanced' as const : 'premium' as const,
+        gender: gender === 'male' || gender === 'female' ? gender : undefined,
+      };
+    });
+  }
 
-    // Use environment variable or parameter or default
-    const cleanupHours = maxAgeHours || 
-                        parseInt(process.env.CLEANUP_INTERVAL_HOURS || '24');
-    const maxAge = cleanupHours * 60 * 60 * 1000; // Convert to milliseconds
-    const now = Date.now();
+  /**
+   * VoiceEngine: language is chosen by the text itself, not by a parameter
+   */
+  public getSupportedLanguages(): string[] {
+    return [];
+  }
 
-    try {
-      const files = fs.readdirSync(this.outputDir);
-      let cleanedCount = 0;
-
-      for (const file of files) {
-        const filePath = path.join(this.outputDir, file);
-        const stats = fs.statSync(filePath);
-        
-        if (now - stats.mtime.getTime() > maxAge) {
-          fs.unlinkSync(filePath);
-          cleanedCount++;
-        }
-      }
+  public getCapabilities(): EngineCapabilities {
+    return {
+      offline: false,
+      echo: true,
+      ssml: false,
+      exportFormats: OPENAI_FORMATS,
+      maxInputChars: OPENAI_MAX_INPUT_CHARS,
+    };
+  }
 
-      // Silent cleanup - no logging
-    } catch (error) {
-      // Silent error handling
+  public describeVoice(options: HybridVoiceOptions): string {
+    return this.getVoiceInfo(this.toOpenAIOptions(options).voice);
+  }
+
+  public resolveVoiceId(options: HybridVoiceOptions): string | null {
+    return this.toOpenAIOptions(options).voice || this.getOptimalVoice();
+  }
+
+  public resolveRendering(options: HybridVoiceOptions): { model?: string; speed: number } {
+    const openaiOptions = this.toOpenAIOptions(options);
+    return { model: openaiOptions.model || this.getDefaultModel(), speed: this.resolveSpeed(openaiOptions.speed) };
+  }
+
+  /**
+   * VoiceEngine: OpenAI-specific `say` parameters
+   * OpenAI-compatible endpoints share openaiVoice/openaiModel/openaiSpeed; enums list the server's own catalogue
+   */
+  public getSchemaFragment(): Record<string, any> {
+    const voices = this.getAvailableVoices();
+    const models = this.getAvailableModels();
+    const builtIn = !this.baseURL;
+
+    const fragment: Record<string, any> = {
+      openaiVoice: {
+        type: 'string',
+        ...(voices.length > 0 ? { enum: voices } : {}),
+        description: builtIn
+          ? '🎭 OpenAI voice selection: alloy (balanced), echo (male), fable (expressive), onyx (deep male), nova (warm female), shimmer (bright female)'
+          : `🎭 ${this.displayName} voice${voices.length > 0 ? `: ${voices.join(', ')}` : ' (any voice the server accepts)'}`,
+        default: this.getOptimalVoice()
+      },
+      openaiModel: {
+        type: 'string',
+        ...(models.length > 0 ? { enum: models } : {}),
+        description: builtIn
+          ? '⚡ OpenAI model: tts-1 (faster, standard quality) or tts-1-hd (slower, higher quality)'
+          : `⚡ ${this.displayName} model${models.length > 0 ? `: ${models.join(', ')}` : ' (any model the server accepts)'}`,
+        default: this.getDefaultModel()
+      },
+      openaiSpeed: {
+        type: 'number',
+        minimum: 0.25,
+        maximum: 4.0,
+        description: '🚀 Speech speed multiplier (0.25x to 4.0x). 1.0 is normal speed.',
+        default: 1.0
+      },
+      stream: {
+        type: 'boolean',
+        description: '🌊 Stream audio into the player while it downloads (lower latency; needs a stdin player such as paplay, aplay, ffplay or sox). Default: TTS_STREAMING.',
+        default: process.env.TTS_STREAMING === 'true'
+      },
+    };
+
+    if (this.name === 'openai') {
+      fragment.useOpenAI = {
+        type: 'boolean',
+        description: '🌩️ Use OpenAI TTS engine for premium cloud-based voice synthesis. Higher quality but requires API usage.',
+        default: true
+      };
     }
+
+    return fragment;
+  }
+
+  /**
+   * Enforce synthesis cache age and size limits (LRU eviction)
+   */
+  public evictCache(): void {
+    this.cache.evict();
   }
 }
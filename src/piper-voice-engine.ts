@@ -0,0 +1,366 @@
+/**
+ * Piper Voice Engine - Offline neural voices via the Piper TTS CLI
+ * Discovers installed `.onnx` voice models and their JSON metadata; runs on CPU only.
+ * Languages without a model are handed to the fallback engine (espeak on Linux)
+ */
+
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { VoiceInfo } from './voice-intelligence.js';
+import { VoiceEngine, EngineCapabilities, HybridVoiceOptions, SynthesizedAudio } from './voice-engine.js';
+import { SynthesisCache, createSynthesisCache } from './synthesis-cache.js';
+import { PronunciationLexicon } from './pronunciation-lexicon.js';
+import { resolveEchoSettings } from './openai-voice-engine.js';
+import { applyEcho, decodeWav, encodeWav } from './audio-mixer.js';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_SCAN_DEPTH = 3;
+
+/**
+ * Subset of the `<model>.onnx.json` config shipped with every Piper voice
+ */
+interface PiperModelConfig {
+  dataset?: string;
+  language?: { code?: string; family?: string; name_english?: string };
+  espeak?: { voice?: string };
+  audio?: { sample_rate?: number; quality?: string };
+  num_speakers?: number;
+  speaker_id_map?: Record<string, number>;
+}
+
+export interface PiperVoice extends VoiceInfo {
+  modelPath: string;
+  speakerId?: number;
+  sampleRate?: number;
+}
+
+export class PiperVoiceEngine implements VoiceEngine {
+  public readonly name = 'piper';
+  public readonly displayName = 'Piper';
+  public readonly priority = 50;
+
+  private binary: string;
+  private modelsDir: string;
+  private binaryAvailable: boolean = false;
+  private voices: PiperVoice[] = [];
+  private fallback: VoiceEngine | null;
+  private cache: SynthesisCache;
+  private lexicon: PronunciationLexicon | null;
+
+  constructor(fallback: VoiceEngine | null = null, lexicon: PronunciationLexicon | null = null) {
+    this.binary = process.env.PIPER_BINARY || 'piper';
+    this.modelsDir = (process.env.PIPER_MODELS_DIR || path.join(os.homedir(), '.local', 'share', 'piper', 'voices'))
+      .replace(/^~(?=$|[\\/])/, os.homedir());
+    this.fallback = fallback;
+    this.lexicon = lexicon;
+    this.cache = createSynthesisCache(path.join(os.tmpdir(), 'mcp-nexus-voice-piper'));
+  }
+
+  /**
+   * Probe the Piper binary and discover installed voice models
+   */
+  async initialize(): Promise<void> {
+    try {
+      await execFileAsync(this.binary, ['--help'], { timeout: 5000 });
+      this.binaryAvailable = true;
+    } catch (error) {
+      this.binaryAvailable = false;
+    }
+
+    this.voices = this.discoverVoices();
+    if (this.isEngineAvailable()) {
+      this.cache.evict();
+    }
+  }
+
+  /**
+   * Available when the binary runs and at least one model is installed
+   */
+  isEngineAvailable(): boolean {
+    return this.binaryAvailable && this.voices.length > 0;
+  }
+
+  listVoices(): VoiceInfo[] {
+    return this.voices;
+  }
+
+  getSupportedLanguages(): string[] {
+    return Array.from(new Set(this.voices.map(voice => voice.languageCode)));
+  }
+
+  getCapabilities(): EngineCapabilities {
+    return {
+      offline: true,
+      echo: true,
+      ssml: false,
+      exportFormats: ['wav'],
+    };
+  }
+
+  getSchemaFragment(): Record<string, any> {
+    return {
+      piperVoice: {
+        type: 'string',
+        enum: this.voices.map(voice => voice.id),
+        description: '🧠 Piper voice model (offline neural TTS). Default: best installed model for the language.',
+      },
+    };
+  }
+
+  describeVoice(options: HybridVoiceOptions): string {
+    const voice = this.resolveVoice(options);
+    if (!voice) {
+      return this.fallback
+        ? `${this.fallback.describeVoice(options)} (no Piper model for "${options.language}")`
+        : `No Piper model for "${options.language}"`;
+    }
+    return `${voice.name} (${voice.language}, ${voice.quality})`;
+  }
+
+  resolveVoiceId(options: HybridVoiceOptions): string | null {
+    const voice = this.resolveVoice(options);
+    return voice ? voice.id : this.fallback?.resolveVoiceId(options) ?? null;
+  }
+
+  resolveRendering(options: HybridVoiceOptions): { model?: string; speed: number } {
+    const voice = this.resolveVoice(options);
+    if (!voice && this.fallback) {
+      return this.fallback.resolveRendering(options);
+    }
+    const lengthScale = this.getLengthScale(options);
+    return { model: voice ? path.basename(voice.modelPath, '.onnx') : undefined, speed: lengthScale ? 1 / lengthScale : 1 };
+  }
+
+  /**
+   * Render speech with Piper into a cached WAV file
+   * Languages without a model are rendered by the fallback engine instead
+   */
+  async synthesizeToBuffer(text: string, options: HybridVoiceOptions): Promise<SynthesizedAudio> {
+    const voice = this.resolveVoice(options);
+    if (!voice) {
+      if (!this.fallback) {
+        throw new Error(`No Piper model for language "${options.language}"`);
+      }
+      const audio = await this.fallback.synthesizeToBuffer(text, options);
+      return { ...audio, voiceInfo: this.describeVoice(options) };
+    }
+
+    // The fallback applies its own lexicon forms, so Piper's are applied only here
+    const spokenText = this.pronounce(text, options);
+    const lengthScale = this.getLengthScale(options);
+    const rawKey = SynthesisCache.key({ text: spokenText, model: voice.modelPath, speaker: voice.speakerId, lengthScale });
+    let rawPath = this.cache.get(rawKey, 'wav');
+    const cacheHit = rawPath !== null;
+
+    if (!rawPath) {
+      rawPath = this.cache.put(rawKey, 'wav', await this.runPiper(spokenText, voice, lengthScale));
+    }
+
+    // Echo is mixed in-process, cached alongside the dry render
+    let filePath: string = rawPath;
+    const echo = resolveEchoSettings(options.echo);
+    if (echo) {
+      const echoKey = SynthesisCache.key({ source: rawKey, delay: echo.delay, volumes: echo.volumes.join(',') });
+      filePath = this.cache.get(echoKey, 'wav')
+        || this.cache.put(echoKey, 'wav', encodeWav(applyEcho(decodeWav(fs.readFileSync(rawPath)), echo)));
+    }
+
+    return {
+      buffer: fs.readFileSync(filePath),
+      format: 'wav',
+      filePath,
+      voiceInfo: this.describeVoice(options),
+      echoApplied: echo !== null,
+      cacheHit,
+    };
+  }
+
+  isCached(text: string, options: HybridVoiceOptions): boolean {
+    const voice = this.resolveVoice(options);
+    if (!voice) return false;
+
+    return this.cache.has(SynthesisCache.key({ text: this.pronounce(text, options), model: voice.modelPath, speaker: voice.speakerId, lengthScale: this.getLengthScale(options) }), 'wav');
+  }
+
+  /**
+   * Piper speaks slower with a larger length scale; undefined keeps the model's default
+   */
+  private getLengthScale(options: HybridVoiceOptions): number | undefined {
+    const speed = options.rate ?? options.emotionStyle?.piper?.speed;
+    return speed ? Math.max(0.25, Math.min(4, 1 / speed)) : undefined;
+  }
+
+  /**
+   * Apply the pronunciation lexicon for this engine
+   */
+  private pronounce(text: string, options: HybridVoiceOptions): string {
+    return this.lexicon ? this.lexicon.apply(text, options.language, this.name) : text;
+  }
+
+  /**
+   * Pick a voice: explicit piperVoice, then best model for the language, then the default
+   * Returns null when a language was requested that no model covers
+   */
+  private resolveVoice(options: HybridVoiceOptions): PiperVoice | null {
+    if (options.piperVoice) {
+      const voice = this.voices.find(candidate => candidate.id === options.piperVoice);
+      if (!voice) {
+        throw new Error(`Unknown Piper voice "${options.piperVoice}"`);
+      }
+      return voice;
+    }
+
+    const namedVoice = options.voice ? this.voices.find(candidate => candidate.id === options.voice) : undefined;
+    if (namedVoice) {
+      return namedVoice;
+    }
+
+    if (options.language) {
+      return this.getBestVoiceForLanguage(options.language);
+    }
+
+    const defaultVoice = process.env.PIPER_DEFAULT_VOICE;
+    return this.voices.find(voice => voice.id === defaultVoice)
+      || this.getBestVoiceForLanguage('en')
+      || this.voices[0]
+      || null;
+  }
+
+  /**
+   * Quality-first selection within a language, same ordering as platform voices
+   */
+  private getBestVoiceForLanguage(languageCode: string): PiperVoice | null {
+    const qualityOrder = { premium: 3, enhanced: 2, standard: 1 };
+    const candidates = this.voices
+      .filter(voice => voice.languageCode === languageCode.toLowerCase())
+      .sort((a, b) => qualityOrder[b.quality || 'standard'] - qualityOrder[a.quality || 'standard']);
+    return candidates[0] || null;
+  }
+
+  /**
+   * Find `.onnx` models with their JSON configs under the models directory
+   */
+  private discoverVoices(): PiperVoice[] {
+    const voices: PiperVoice[] = [];
+
+    for (const modelPath of this.findModelFiles(this.modelsDir, 0)) {
+      const config = this.readModelConfig(modelPath);
+      if (!config) continue;
+
+      const modelName = path.basename(modelPath, '.onnx');
+      const locale = config.language?.code || config.espeak?.voice || modelName.split('-')[0];
+      const languageCode = (config.language?.family || locale.split(/[-_]/)[0]).toLowerCase();
+      const base = {
+        language: config.language?.name_english || languageCode.toUpperCase(),
+        languageCode,
+        locale,
+        quality: this.mapQuality(config.audio?.quality),
+        modelPath,
+        sampleRate: config.audio?.sample_rate,
+      };
+
+      const speakers = Object.entries(config.speaker_id_map || {});
+      if ((config.num_speakers || 1) > 1 && speakers.length > 0) {
+        for (const [speaker, speakerId] of speakers) {
+          voices.push({ ...base, id: `${modelName}:${speaker}`, name: `${modelName} (${speaker})`, speakerId });
+        }
+      } else {
+        voices.push({ ...base, id: modelName, name: modelName });
+      }
+    }
+
+    return voices;
+  }
+
+  private findModelFiles(directory: string, depth: number): string[] {
+    if (depth > MAX_SCAN_DEPTH) return [];
+
+    try {
+      const found: string[] = [];
+      for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          found.push(...this.findModelFiles(entryPath, depth + 1));
+        } else if (entry.name.endsWith('.onnx')) {
+          found.push(entryPath);
+        }
+      }
+      return found;
+    } catch (error) {
+      // Missing or unreadable models directory - no voices
+      return [];
+    }
+  }
+
+  /**
+   * Read `<model>.onnx.json`, or `<model>.json` as some downloads name it
+   */
+  private readModelConfig(modelPath: string): PiperModelConfig | null {
+    for (const configPath of [`${modelPath}.json`, modelPath.replace(/\.onnx$/, '.json')]) {
+      try {
+        return JSON.parse(fs.readFileSync(configPath, 'utf8')) as PiperModelConfig;
+      } catch (error) {
+        // Try the next naming convention
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Map Piper quality tiers onto VoiceInfo quality
+   */
+  private mapQuality(quality?: string): 'premium' | 'enhanced' | 'standard' {
+    if (quality === 'high') return 'premium';
+    if (quality === 'medium') return 'enhanced';
+    return 'standard';
+  }
+
+  /**
+   * Run Piper with the text on stdin and return the rendered WAV
+   * GPUs are hidden from the process so inference always stays on the CPU
+   */
+  private runPiper(text: string, voice: PiperVoice, lengthScale?: number): Promise<Buffer> {
+    const outputPath = path.join(os.tmpdir(), `piper_tts_${Date.now()}_${Math.random().toString(36).substring(2, 8)}.wav`);
+    const args = ['--model', voice.modelPath, '--output_file', outputPath];
+    if (voice.speakerId !== undefined) {
+      args.push('--speaker', String(voice.speakerId));
+    }
+    if (lengthScale !== undefined) {
+      args.push('--length_scale', lengthScale.toFixed(2));
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const child = spawn(this.binary, args, {
+        env: { ...process.env, CUDA_VISIBLE_DEVICES: '' },
+        stdio: ['pipe', 'ignore', 'pipe'],
+      });
+
+      let stderr = '';
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      child.on('error', (error) => reject(new Error(`Piper synthesis failed: ${error.message}`)));
+      // Piper exiting early (bad model, crash) breaks the pipe; that is a failed synthesis, not a server crash
+      child.stdin?.on('error', (error) => reject(new Error(`Piper synthesis failed: ${error.message}`)));
+      child.on('close', (code) => {
+        try {
+          if (code !== 0) {
+            throw new Error(`Piper synthesis failed (exit ${code}): ${stderr.trim().split('\n').pop() || 'no output'}`);
+          }
+          resolve(fs.readFileSync(outputPath));
+        } catch (error) {
+          reject(error);
+        } finally {
+          fs.rmSync(outputPath, { force: true });
+        }
+      });
+
+      child.stdin?.end(text.replace(/\s+/g, ' ').trim() + '\n');
+    });
+  }
+}
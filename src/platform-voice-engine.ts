@@ -0,0 +1,190 @@
+/**
+ * Platform Voice Engine - Native system voices as a registered VoiceEngine
+ * Wraps VoiceIntelligence discovery: `say` on macOS, SAPI on Windows, espeak on Linux
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { VoiceIntelligence, VoiceInfo, PlatformExportFormat, PlatformVoiceStyle } from './voice-intelligence.js';
+import { VoiceEngine, EngineCapabilities, HybridVoiceOptions, SynthesizedAudio } from './voice-engine.js';
+import { PlaybackHandle, startPlayback } from './audio-playback.js';
+import { SynthesisCache, createSynthesisCache } from './synthesis-cache.js';
+import { PronunciationLexicon } from './pronunciation-lexicon.js';
+
+const execFileAsync = promisify(execFile);
+
+// Default speaking rate of say and espeak; `rate` scales it
+const DEFAULT_WORDS_PER_MINUTE = 175;
+
+export class PlatformVoiceEngine implements VoiceEngine {
+  public readonly name = 'platform';
+  public readonly displayName = 'Platform';
+  public readonly priority = 0;
+
+  private voiceIntelligence: VoiceIntelligence;
+  private cache: SynthesisCache;
+  private lexicon: PronunciationLexicon | null;
+
+  constructor(voiceIntelligence: VoiceIntelligence = new VoiceIntelligence(), lexicon: PronunciationLexicon | null = null) {
+    this.voiceIntelligence = voiceIntelligence;
+    this.lexicon = lexicon;
+    this.cache = createSynthesisCache(path.join(os.tmpdir(), 'mcp-nexus-voice-platform'));
+  }
+
+  async initialize(): Promise<void> {
+    await this.voiceIntelligence.initialize();
+    this.cache.evict();
+  }
+
+  /**
+   * Platform engine is always available
+   */
+  isEngineAvailable(): boolean {
+    return true;
+  }
+
+  getVoiceIntelligence(): VoiceIntelligence {
+    return this.voiceIntelligence;
+  }
+
+  listVoices(): VoiceInfo[] {
+    return this.voiceIntelligence.getAvailableVoices();
+  }
+
+  getSupportedLanguages(): string[] {
+    return this.voiceIntelligence.getSupportedLanguages();
+  }
+
+  getCapabilities(): EngineCapabilities {
+    return {
+      offline: true,
+      echo: false,
+      ssml: true,
+      exportFormats: this.voiceIntelligence.getExportFormats(),
+    };
+  }
+
+  getSchemaFragment(): Record<string, any> {
+    const supportedLanguages = this.getSupportedLanguages();
+    if (supportedLanguages.length === 0) return {};
+
+    return {
+      language: {
+        type: 'string',
+        enum: supportedLanguages,
+        description: 'Language for platform voice selection. System automatically selects the best voice for the chosen language. 🎭 Easter egg: On macOS, you can also specify exact voice names (e.g., "Fred", "Krzysztof", "Samantha") instead of language codes.'
+      },
+    };
+  }
+
+  describeVoice(options: HybridVoiceOptions): string {
+    return this.voiceIntelligence.getUsedVoiceInfo(options.language, this.getStyle(options).voice);
+  }
+
+  resolveRendering(options: HybridVoiceOptions): { model?: string; speed: number } {
+    const style = this.getStyle(options);
+    if (style.wordsPerMinute !== undefined) {
+      return { speed: style.wordsPerMinute / DEFAULT_WORDS_PER_MINUTE };
+    }
+    return { speed: style.sapiRate !== undefined ? Math.pow(3, style.sapiRate / 10) : 1 };
+  }
+
+  resolveVoiceId(options: HybridVoiceOptions): string | null {
+    return this.voiceIntelligence.resolveVoice(options.language, this.getStyle(options).voice)?.id ?? null;
+  }
+
+  /**
+   * Speak through the native synthesizer, which plays while it synthesizes
+   */
+  speak(text: string, options: HybridVoiceOptions): PlaybackHandle {
+    const command = this.voiceIntelligence.getVoiceCommand(this.pronounce(text, options), options.language, this.getStyle(options));
+    const playback = startPlayback(command);
+
+    return {
+      ...playback,
+      done: playback.done.catch((error: Error) => {
+        throw new Error(`Platform synthesis failed: ${error.message}`);
+      }),
+    };
+  }
+
+  /**
+   * Render speech to a cached audio file via the platform's file output
+   */
+  async synthesizeToBuffer(text: string, options: HybridVoiceOptions): Promise<SynthesizedAudio> {
+    const exportFormats = this.voiceIntelligence.getExportFormats();
+    const format = exportFormats.includes(options.format as PlatformExportFormat)
+      ? options.format as PlatformExportFormat
+      : 'wav';
+    const voiceInfo = this.describeVoice(options);
+    const spokenText = this.pronounce(text, options);
+    const style = this.getStyle(options);
+
+    const key = SynthesisCache.key({ text: spokenText, voice: voiceInfo, language: options.language, format, style: JSON.stringify(style) });
+    const cachedPath = this.cache.get(key, format);
+    if (cachedPath) {
+      return { buffer: fs.readFileSync(cachedPath), format, filePath: cachedPath, voiceInfo, echoApplied: false, cacheHit: true };
+    }
+
+    const renderPath = path.join(os.tmpdir(), `platform_tts_${Date.now()}_${Math.random().toString(36).substring(2, 8)}.${format}`);
+    try {
+      const command = this.voiceIntelligence.getExportCommand(spokenText, renderPath, options.language, format, style);
+      await execFileAsync(command.file, command.args, { env: { ...process.env, ...command.env }, windowsHide: true });
+      const buffer = fs.readFileSync(renderPath);
+      const filePath = this.cache.put(key, format, buffer);
+      return { buffer, format, filePath, voiceInfo, echoApplied: false, cacheHit: false };
+    } catch (error) {
+      throw new Error(`Platform synthesis failed: ${(error as Error).message}`);
+    } finally {
+      fs.rmSync(renderPath, { force: true });
+    }
+  }
+
+  /**
+   * Voice, emotion and prosody settings in this platform's synthesizer units
+   * Explicit rate, pitch and volume win over the emotion's values
+   */
+  private getStyle(options: HybridVoiceOptions): PlatformVoiceStyle {
+    const emotion = options.emotionStyle;
+    const style: PlatformVoiceStyle = { voice: options.voice };
+    const wordsPerMinute = options.rate !== undefined ? Math.round(DEFAULT_WORDS_PER_MINUTE * options.rate) : undefined;
+
+    switch (os.platform()) {
+      case 'darwin': {
+        // Novelty voices only read English
+        const language = options.language?.toLowerCase().split(/[-_]/)[0];
+        if (emotion?.macos?.voice && (!language || language === 'en')) {
+          style.voice = emotion.macos.voice;
+        }
+        style.wordsPerMinute = wordsPerMinute ?? emotion?.macos?.rate;
+        style.pitchShift = options.pitch;
+        style.sayVolume = options.volume;
+        break;
+      }
+      case 'win32':
+        // SAPI Rate 10 is roughly three times as fast, -10 a third of the speed
+        style.sapiRate = options.rate !== undefined
+          ? Math.max(-10, Math.min(10, Math.round(10 * Math.log(options.rate) / Math.log(3))))
+          : emotion?.sapi?.rate;
+        style.sapiVolume = options.volume !== undefined ? Math.round(options.volume * 100) : emotion?.sapi?.volume;
+        break;
+      default:
+        style.wordsPerMinute = wordsPerMinute ?? emotion?.espeak?.speed;
+        style.pitch = options.pitch !== undefined ? Math.max(0, Math.min(99, 50 + options.pitch * 4)) : emotion?.espeak?.pitch;
+        style.amplitude = options.volume !== undefined ? Math.round(options.volume * 100) : undefined;
+        style.variant = emotion?.espeak?.variant;
+        break;
+    }
+    return style;
+  }
+
+  /**
+   * Apply the pronunciation lexicon for this engine
+   */
+  private pronounce(text: string, options: HybridVoiceOptions): string {
+    return this.lexicon ? this.lexicon.apply(text, options.language, this.name) : text;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Pronunciation Lexicon - User-defined spoken forms for names, tools and acronyms
+ * Entries are kept per language ("*" for every language) in a JSON file, optionally with
+ * a different spoken form per engine; every engine applies them just before synthesis
+ *
+ * {
+ *   "*":  { "nginx": "engine x" },
+ *   "en": { "kubectl": "cube control", "SQL": { "say": "sequel", "engines": { "platform": "S Q L" } } }
+ * }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+export const ALL_LANGUAGES = '*';
+
+export interface LexiconEntry {
+  term: string;
+  language: string;
+  say: string;
+  engines?: Record<string, string>;
+}
+
+type StoredEntry = string | { say: string; engines?: Record<string, string> };
+
+/**
+ * Lexicon location: TTS_LEXICON_PATH, or lexicon.json in the XDG config directory
+ */
+export function getLexiconPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.TTS_LEXICON_PATH) {
+    return env.TTS_LEXICON_PATH.replace(/^~(?=$|[\\/])/, os.homedir());
+  }
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'mcp-nexus-voice', 'lexicon.json');
+}
+
+export class PronunciationLexicon {
+  private entries = new Map<string, Map<string, LexiconEntry>>();
+  private patterns = new Map<string, { pattern: RegExp; spoken: Map<string, string> } | null>();
+  private loadError: string | null = null;
+
+  constructor(private readonly filePath: string = getLexiconPath()) {
+    this.load();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Why the lexicon file could not be read, if it could not; the lexicon then starts empty
+   */
+  getLoadError(): string | null {
+    return this.loadError;
+  }
+
+  /**
+   * (Re)read the lexicon file; a missing file is an empty lexicon
+   */
+  load(): void {
+    this.entries.clear();
+    this.patterns.clear();
+    this.loadError = null;
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, Record<string, StoredEntry>>;
+      for (const [language, terms] of Object.entries(data)) {
+        for (const [term, stored] of Object.entries(terms)) {
+          const entry = typeof stored === 'string' ? { say: stored } : stored;
+          if (typeof entry?.say !== 'string') {
+            throw new Error(`"${term}" (${language}) needs a spoken form`);
+          }
+          this.set({ term, language, say: entry.say, engines: entry.engines });
+        }
+      }
+    } catch (error) {
+      this.entries.clear();
+      this.loadError = `${this.filePath}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * Write the lexicon back to its file
+   */
+  save(): void {
+    const data: Record<string, Record<string, StoredEntry>> = {};
+    for (const [language, terms] of this.entries) {
+      data[language] = {};
+      for (const entry of terms.values()) {
+        data[language][entry.term] = entry.engines ? { say: entry.say, engines: entry.engines } : entry.say;
+      }
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+    this.loadError = null;
+  }
+
+  /**
+   * Entries for one language (including "*" entries), or all of them
+   */
+  list(language?: string): LexiconEntry[] {
+    return Array.from(this.entries.entries())
+      .filter(([entryLanguage]) => !language || entryLanguage === normalizeLanguage(language) || entryLanguage === ALL_LANGUAGES)
+      .flatMap(([, terms]) => Array.from(terms.values()))
+      .sort((a, b) => a.language.localeCompare(b.language) || a.term.localeCompare(b.term));
+  }
+
+  /**
+   * Add or update a term; with `engine`, only that engine's spoken form is set
+   * (new terms use it as their general form too)
+   */
+  add(term: string, language: string, say: string, engine?: string): LexiconEntry {
+    const existing = this.entries.get(normalizeLanguage(language))?.get(term);
+    if (!engine) {
+      return this.set({ term, language, say, engines: existing?.engines });
+    }
+    return this.set({ term, language, say: existing?.say ?? say, engines: { ...existing?.engines, [engine]: say } });
+  }
+
+  /**
+   * Remove a term, or only one engine's override of it; returns false when nothing matched
+   */
+  remove(term: string, language: string, engine?: string): boolean {
+    const terms = this.entries.get(normalizeLanguage(language));
+    const entry = terms?.get(term);
+    if (!terms || !entry) return false;
+
+    if (engine) {
+      if (!entry.engines?.[engine]) return false;
+      delete entry.engines[engine];
+      if (Object.keys(entry.engines).length === 0) delete entry.engines;
+    } else {
+      terms.delete(term);
+      if (terms.size === 0) this.entries.delete(normalizeLanguage(language));
+    }
+    this.patterns.clear();
+    return true;
+  }
+
+  /**
+   * Replace lexicon terms with their spoken forms for one engine and language
+   * Terms containing capitals (SQL) match exactly, lowercase terms (nginx) in any case;
+   * SSML tags are left untouched
+   */
+  apply(text: string, language: string | undefined, engine: string): string {
+    const compiled = this.compile(normalizeLanguage(language || 'en'), engine);
+    if (!compiled) return text;
+
+    return text.split(/(<[^>]*>)/).map((part, index) =>
+      index % 2 === 1 ? part : part.replace(compiled.pattern, match => compiled.spoken.get(match) ?? compiled.spoken.get(match.toLowerCase()) ?? match)
+    ).join('');
+  }
+
+  private set(entry: LexiconEntry): LexiconEntry {
+    const language = normalizeLanguage(entry.language);
+    const terms = this.entries.get(language) || new Map<string, LexiconEntry>();
+    const stored: LexiconEntry = { term: entry.term, language, say: entry.say };
+    if (entry.engines && Object.keys(entry.engines).length > 0) {
+      stored.engines = { ...entry.engines };
+    }
+
+    terms.set(entry.term, stored);
+    this.entries.set(language, terms);
+    this.patterns.clear();
+    return stored;
+  }
+
+  private compile(language: string, engine: string): { pattern: RegExp; spoken: Map<string, string> } | null {
+    const cacheKey = `${language}|${engine}`;
+    if (this.patterns.has(cacheKey)) return this.patterns.get(cacheKey)!;
+
+    // Language entries win over "*" entries for the same term
+    const spoken = new Map<string, string>();
+    for (const source of [ALL_LANGUAGES, language]) {
+      for (const entry of this.entries.get(source)?.values() || []) {
+        const key = entry.term === entry.term.toLowerCase() ? entry.term.toLowerCase() : entry.term;
+        spoken.set(key, entry.engines?.[engine] ?? entry.say);
+      }
+    }
+
+    let compiled: { pattern: RegExp; spoken: Map<string, string> } | null = null;
+    if (spoken.size > 0) {
+      // Longest first so "PostgreSQL" wins over "SQL"
+      const alternatives = Array.from(spoken.keys())
+        .sort((a, b) => b.length - a.length)
+        .map(term => term === term.toLowerCase()
+          ? Array.from(term).map(char => char.toLowerCase() === char.toUpperCase() ? escapeRegExp(char) : `[${char}${char.toUpperCase()}]`).join('')
+          : escapeRegExp(term));
+      compiled = { pattern: new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'gu'), spoken };
+    }
+
+    this.patterns.set(cacheKey, compiled);
+    return compiled;
+  }
+}
+
+function normalizeLanguage(language: string): string {
+  return language === ALL_LANGUAGES ? language : language.toLowerCase().split(/[-_]/)[0];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
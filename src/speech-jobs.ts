@@ -0,0 +1,170 @@
+/**
+ * Speech Jobs - Lifecycle tracking for queued utterances
+ * Every `say` call becomes a job whose state, engine and timings can be
+ * inspected later through the speech_status tool
+ */
+
+export type SpeechJobState = 'queued' | 'synthesizing' | 'playing' | 'done' | 'failed' | 'cancelled';
+
+export interface SpeechJobTimings {
+  queuedAt: number;
+  synthesisStartedAt?: number;
+  synthesisFinishedAt?: number;
+  playbackStartedAt?: number;
+  firstAudioAt?: number;
+  finishedAt?: number;
+}
+
+export interface SpeechJob {
+  id: string;
+  text: string;
+  state: SpeechJobState;
+  engine?: string;
+  voiceInfo?: string;
+  fallbackReason?: string;
+  cache?: 'hit' | 'miss';
+  chunks?: number;
+  streamed?: boolean;
+  audioPath?: string; // Rendered audio, when the engine produced a file
+  format?: string;
+  error?: string;
+  timings: SpeechJobTimings;
+}
+
+const TERMINAL_STATES: SpeechJobState[] = ['done', 'failed', 'cancelled'];
+
+export class SpeechJobTracker {
+  private jobs: Map<string, SpeechJob> = new Map();
+  private nextId: number = 1;
+  private maxJobs: number;
+
+  constructor(maxJobs: number = 50) {
+    this.maxJobs = maxJobs;
+  }
+
+  /**
+   * Change how many jobs are kept; the excess goes as new jobs arrive
+   */
+  setMaxJobs(maxJobs: number): void {
+    this.maxJobs = maxJobs;
+  }
+
+  /**
+   * Register a new queued job, evicting the oldest finished jobs past the limit
+   */
+  create(text: string): SpeechJob {
+    const job: SpeechJob = {
+      id: `speech-${this.nextId++}`,
+      text,
+      state: 'queued',
+      timings: { queuedAt: Date.now() },
+    };
+    this.jobs.set(job.id, job);
+
+    for (const [id, existing] of this.jobs) {
+      if (this.jobs.size <= this.maxJobs) break;
+      if (isFinished(existing)) {
+        this.jobs.delete(id);
+      }
+    }
+
+    return job;
+  }
+
+  /**
+   * Move a job to a new state and stamp the matching timing
+   * Finished jobs never change state again
+   */
+  transition(job: SpeechJob, state: SpeechJobState): void {
+    if (isFinished(job)) return;
+
+    job.state = state;
+    const now = Date.now();
+    switch (state) {
+      case 'synthesizing':
+        job.timings.synthesisStartedAt = now;
+        break;
+      case 'playing':
+        job.timings.playbackStartedAt = now;
+        break;
+      case 'done':
+      case 'failed':
+      case 'cancelled':
+        job.timings.finishedAt = now;
+        break;
+    }
+  }
+
+  get(id: string): SpeechJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Most recent jobs first
+   */
+  getRecent(limit: number = 10): SpeechJob[] {
+    return Array.from(this.jobs.values()).slice(-limit).reverse();
+  }
+
+  /**
+   * Every tracked job, most recent first
+   */
+  list(): SpeechJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+}
+
+export function isFinished(job: SpeechJob): boolean {
+  return TERMINAL_STATES.includes(job.state);
+}
+
+/**
+ * Human-readable one-line job summary for tool responses
+ */
+export function describeJob(job: SpeechJob): string {
+  const { queuedAt, synthesisStartedAt, synthesisFinishedAt, playbackStartedAt, firstAudioAt, finishedAt } = job.timings;
+  const preview = `${job.text.substring(0, 40)}${job.text.length > 40 ? '...' : ''}`;
+
+  let line = `${job.id} [${job.state.toUpperCase()}] "${preview}"`;
+  if (job.engine) {
+    line += ` | Engine: ${job.engine}`;
+  }
+  if (job.voiceInfo) {
+    line += ` | Voice: ${job.voiceInfo}`;
+  }
+  if (job.chunks && job.chunks > 1) {
+    line += ` | Chunks: ${job.chunks}`;
+  }
+  if (job.cache) {
+    line += ` | Cache: ${job.cache}`;
+  }
+  if (job.fallbackReason) {
+    line += ` | Fallback: ${job.fallbackReason}`;
+  }
+  if (job.error) {
+    line += ` | Error: ${job.error}`;
+  }
+
+  const timings: string[] = [];
+  if (synthesisStartedAt !== undefined) {
+    timings.push(`wait ${synthesisStartedAt - queuedAt}ms`);
+  }
+  if (synthesisStartedAt !== undefined && synthesisFinishedAt !== undefined) {
+    timings.push(`synthesis ${synthesisFinishedAt - synthesisStartedAt}ms`);
+  }
+  // Time to first audio compares streamed with buffered playback
+  if (synthesisStartedAt !== undefined && firstAudioAt !== undefined) {
+    timings.push(`first audio ${firstAudioAt - synthesisStartedAt}ms${job.streamed ? ' (streamed)' : ''}`);
+  }
+  if (playbackStartedAt !== undefined && finishedAt !== undefined) {
+    timings.push(`playback ${finishedAt - playbackStartedAt}ms`);
+  }
+  if (finishedAt !== undefined) {
+    timings.push(`total ${finishedAt - queuedAt}ms`);
+  }
+  if (timings.length > 0) {
+    line += ` | ${timings.join(', ')}`;
+  }
+
+  return line;
+}
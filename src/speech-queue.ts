@@ -0,0 +1,213 @@
+/**
+ * Speech Queue - Serialized playback with synthesis look-ahead
+ * Utterances always play one at a time and in order, while the next
+ * utterance is already being synthesized during current playback
+ */
+
+import { PlaybackHandle } from './audio-playback.js';
+
+export type QueueMode = 'enqueue' | 'interrupt' | 'priority';
+
+export const QUEUE_MODES: QueueMode[] = ['enqueue', 'interrupt', 'priority'];
+
+/**
+ * Synthesized utterance ready for playback
+ */
+export interface PreparedUtterance<T> {
+  result: T;
+  play(): PlaybackHandle;
+}
+
+interface QueueItem<T> {
+  priority: boolean;
+  synthesize: () => Promise<PreparedUtterance<T>>;
+  prepared?: Promise<PreparedUtterance<T>>;
+  cancelled: boolean;
+  resolve: (result: T) => void;
+  reject: (error: Error) => void;
+}
+
+export class SpeechCancelledError extends Error {
+  constructor() {
+    super('Speech was cancelled');
+    this.name = 'SpeechCancelledError';
+  }
+}
+
+export class SpeechQueue<T> {
+  private pending: QueueItem<T>[] = [];
+  private current: QueueItem<T> | null = null;
+  private currentPlayback: PlaybackHandle | null = null;
+  private draining: boolean = false;
+  private paused: boolean = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  /**
+   * Add an utterance to the queue
+   * Resolves with the synthesis result once playback has finished
+   */
+  add(synthesize: () => Promise<PreparedUtterance<T>>, mode: QueueMode = 'enqueue'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const item: QueueItem<T> = {
+        priority: mode === 'priority',
+        synthesize,
+        cancelled: false,
+        resolve,
+        reject,
+      };
+
+      switch (mode) {
+        case 'interrupt':
+          this.clear();
+          this.pending.push(item);
+          break;
+        case 'priority': {
+          // Priority items jump ahead of regular ones but keep their own order
+          const insertAt = this.pending.findIndex(queued => !queued.priority);
+          if (insertAt === -1) {
+            this.pending.push(item);
+          } else {
+            this.pending.splice(insertAt, 0, item);
+          }
+          break;
+        }
+        default:
+          this.pending.push(item);
+      }
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Cancel pending utterances and stop the one currently playing
+   * Also lifts a pause, so the queue is ready for new speech
+   */
+  clear(): void {
+    for (const item of this.pending.splice(0)) {
+      this.cancel(item);
+    }
+    if (this.current) {
+      this.cancel(this.current);
+    }
+    this.currentPlayback?.stop();
+    this.resume();
+  }
+
+  /**
+   * Stop the current utterance and continue with the next pending one
+   * Returns false when nothing is playing or synthesizing
+   */
+  skip(): boolean {
+    if (!this.current) return false;
+    this.cancel(this.current);
+    this.currentPlayback?.stop();
+    return true;
+  }
+
+  /**
+   * Pause the current utterance and hold back pending ones
+   * Returns false when the player cannot be paused on this platform
+   */
+  pause(): boolean {
+    if (this.currentPlayback && !this.currentPlayback.pause()) {
+      return false;
+    }
+    this.paused = true;
+    return true;
+  }
+
+  /**
+   * Resume a paused utterance and release pending ones
+   */
+  resume(): boolean {
+    if (!this.paused) return false;
+    this.paused = false;
+    this.currentPlayback?.resume();
+    for (const wake of this.resumeWaiters.splice(0)) {
+      wake();
+    }
+    return true;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Number of utterances waiting behind the current one
+   */
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Check whether an utterance is being synthesized or played
+   */
+  isBusy(): boolean {
+    return this.current !== null;
+  }
+
+  private waitUntilResumed(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  private cancel(item: QueueItem<T>): void {
+    if (item.cancelled) return;
+    item.cancelled = true;
+    item.reject(new SpeechCancelledError());
+  }
+
+  /**
+   * Start synthesis for an item once; later calls reuse the same promise
+   */
+  private prepare(item: QueueItem<T>): Promise<PreparedUtterance<T>> {
+    if (!item.prepared) {
+      item.prepared = item.synthesize();
+      // Failures are reported when the item reaches the head of the queue
+      item.prepared.catch(() => {});
+    }
+    return item.prepared;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.pending.length > 0) {
+        const item = this.pending.shift()!;
+        this.current = item;
+
+        try {
+          const prepared = await this.prepare(item);
+
+          // Look-ahead: synthesize the next utterance while this one plays
+          if (this.pending.length > 0) {
+            this.prepare(this.pending[0]);
+          }
+
+          await this.waitUntilResumed();
+          if (item.cancelled) continue;
+
+          this.currentPlayback = prepared.play();
+          await this.currentPlayback.done;
+          this.currentPlayback = null;
+
+          if (!item.cancelled) {
+            item.resolve(prepared.result);
+          }
+        } catch (error) {
+          if (!item.cancelled) {
+            item.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      }
+    } finally {
+      this.current = null;
+      this.currentPlayback = null;
+      this.draining = false;
+    }
+  }
+}
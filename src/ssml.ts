@@ -0,0 +1,379 @@
+/**
+ * SSML - Parser and per-engine translation for a small SSML subset
+ * Supports <break>, <emphasis>, <prosody rate/pitch/volume>, <say-as> and <lang>;
+ * other tags are dropped and their text kept
+ */
+
+export type SsmlEmphasis = 'strong' | 'moderate' | 'reduced' | 'none';
+
+export interface SsmlProsody {
+  rate: number;     // Multiplier, 1 = normal
+  pitch: number;    // Percent offset, 0 = normal
+  volume: number;   // Multiplier, 1 = normal
+  emphasis?: SsmlEmphasis;
+}
+
+export type SsmlNode =
+  | { type: 'text'; text: string; prosody: SsmlProsody; language?: string }
+  | { type: 'break'; ms: number };
+
+interface ParseContext {
+  prosody: SsmlProsody;
+  language?: string;
+  interpretAs?: string;
+  format?: string;
+  tag: string;
+}
+
+const NORMAL_PROSODY: SsmlProsody = { rate: 1, pitch: 0, volume: 1 };
+
+// Tags elsewhere in the text (code snippets, "use <break> tags") leave it plain text
+const SSML_ROOT = /^\s*<speak\b/i;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0, 'x-weak': 100, weak: 250, medium: 400, strong: 700, 'x-strong': 1000,
+};
+const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.5, slow: 0.75, medium: 1, default: 1, fast: 1.25, 'x-fast': 1.5,
+};
+const PITCH_KEYWORDS: Record<string, number> = {
+  'x-low': -30, low: -15, medium: 0, default: 0, high: 15, 'x-high': 30,
+};
+const VOLUME_KEYWORDS: Record<string, number> = {
+  silent: 0, 'x-soft': 0.25, soft: 0.5, medium: 1, default: 1, loud: 1.5, 'x-loud': 2,
+};
+
+// Words per minute macOS `say` uses at rate 1
+const MACOS_BASE_RATE = 175;
+
+/**
+ * Text counts as SSML only when it starts with <speak>
+ */
+export function isSsml(text: string): boolean {
+  return SSML_ROOT.test(text);
+}
+
+/**
+ * Wrap a fragment in <speak> for callers that flag their text as SSML explicitly
+ */
+export function asSsml(text: string): string {
+  return isSsml(text) ? text : `<speak>${text}</speak>`;
+}
+
+/**
+ * Parse SSML into a flat list of text runs (with their prosody and language) and breaks
+ */
+export function parseSsml(ssml: string): SsmlNode[] {
+  const nodes: SsmlNode[] = [];
+  const stack: ParseContext[] = [{ prosody: NORMAL_PROSODY, tag: '#root' }];
+  const tokenPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|([^<]+)/g;
+
+  for (const match of ssml.matchAll(tokenPattern)) {
+    const [, closing, rawTag, rawAttributes, selfClosing, rawText] = match;
+    const context = stack[stack.length - 1];
+
+    if (rawText !== undefined) {
+      const text = interpretText(decodeEntities(rawText), context);
+      if (text.trim().length > 0 || (text.length > 0 && nodes.length > 0)) {
+        nodes.push({ type: 'text', text, prosody: context.prosody, language: context.language });
+      }
+      continue;
+    }
+    if (!rawTag) continue; // Comment or processing instruction
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      // Pop back to the matching open tag; stray closers are ignored
+      const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    if (tag === 'break') {
+      nodes.push({ type: 'break', ms: parseBreak(attributes) });
+      continue;
+    }
+
+    const next: ParseContext = { ...context, tag };
+    switch (tag) {
+      case 'speak':
+      case 'lang':
+      case 'voice': {
+        const language = attributes['xml:lang'] || attributes.lang;
+        if (language) next.language = language.toLowerCase().split(/[-_]/)[0];
+        break;
+      }
+      case 'prosody':
+        next.prosody = {
+          ...context.prosody,
+          rate: context.prosody.rate * parseRelative(attributes.rate, RATE_KEYWORDS, 1),
+          pitch: context.prosody.pitch + parsePitch(attributes.pitch),
+          volume: context.prosody.volume * parseVolume(attributes.volume),
+        };
+        break;
+      case 'emphasis':
+        next.prosody = { ...context.prosody, emphasis: (attributes.level as SsmlEmphasis) || 'moderate' };
+        break;
+      case 'say-as':
+        next.interpretAs = (attributes['interpret-as'] || '').toLowerCase();
+        next.format = attributes.format;
+        break;
+    }
+
+    if (!selfClosing) {
+      stack.push(next);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Plain text with all markup removed, breaks as spaces
+ */
+export function ssmlToPlainText(nodes: SsmlNode[]): string {
+  return nodes
+    .map(node => node.type === 'text' ? node.text : ' ')
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Languages used inside the document
+ */
+export function getSsmlLanguages(nodes: SsmlNode[]): string[] {
+  const languages = new Set<string>();
+  for (const node of nodes) {
+    if (node.type === 'text' && node.language) languages.add(node.language);
+  }
+  return Array.from(languages);
+}
+
+/**
+ * Merge neighbouring text runs that sound the same, keeping breaks between them
+ */
+export function chunkSsml(nodes: SsmlNode[]): SsmlNode[] {
+  const chunks: SsmlNode[] = [];
+
+  for (const node of nodes) {
+    const previous = chunks[chunks.length - 1];
+    if (node.type === 'text' && previous?.type === 'text'
+      && previous.language === node.language && sameProsody(previous.prosody, node.prosody)) {
+      chunks[chunks.length - 1] = { ...previous, text: previous.text + node.text };
+      continue;
+    }
+    chunks.push(node);
+  }
+
+  return chunks
+    .map(chunk => chunk.type === 'text' ? { ...chunk, text: chunk.text.replace(/\s+/g, ' ').trim() } : chunk)
+    .filter(chunk => chunk.type === 'break' || chunk.text.length > 0);
+}
+
+/**
+ * macOS `say` embedded commands: [[slnc]], [[rate]], [[volm]], [[pbas]] and [[emph]]
+ */
+export function toSayEmbeddedCommands(nodes: SsmlNode[]): string {
+  let current: SsmlProsody = NORMAL_PROSODY;
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'break') {
+      output += ` [[slnc ${node.ms}]] `;
+      continue;
+    }
+
+    const { prosody } = node;
+    if (prosody.rate !== current.rate) {
+      output += `[[rate ${Math.round(MACOS_BASE_RATE * prosody.rate)}]]`;
+    }
+    // volm cannot go above full volume
+    if (Math.min(1, prosody.volume) !== Math.min(1, current.volume)) {
+      output += `[[volm ${Math.min(1, prosody.volume).toFixed(2)}]]`;
+    }
+    if (prosody.pitch !== current.pitch) {
+      // pbas is relative here; roughly 2.5% of pitch per unit
+      const delta = Math.round((prosody.pitch - current.pitch) / 2.5);
+      if (delta !== 0) output += `[[pbas ${delta > 0 ? '+' : ''}${delta}]]`;
+    }
+    if (prosody.emphasis === 'strong' || prosody.emphasis === 'moderate') {
+      output += '[[emph +]]';
+    } else if (prosody.emphasis === 'reduced') {
+      output += '[[emph -]]';
+    }
+
+    output += node.text;
+    current = prosody;
+  }
+
+  return output.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Normalized SSML for engines that read it natively (espeak -m, SAPI SpeakSsml)
+ */
+export function toSsmlMarkup(nodes: SsmlNode[], rootLanguage?: string, sapiHeader: boolean = false): string {
+  const body = nodes.map(node => {
+    if (node.type === 'break') {
+      return `<break time='${node.ms}ms'/>`;
+    }
+
+    let markup = encodeEntities(node.text);
+    const { rate, pitch, volume, emphasis } = node.prosody;
+    if (emphasis && emphasis !== 'none') {
+      markup = `<emphasis level='${emphasis}'>${markup}</emphasis>`;
+    }
+    if (rate !== 1 || pitch !== 0 || volume !== 1) {
+      const attributes: string[] = [];
+      if (rate !== 1) attributes.push(`rate='${Math.round(rate * 100)}%'`);
+      if (pitch !== 0) attributes.push(`pitch='${pitch > 0 ? '+' : ''}${Math.round(pitch)}%'`);
+      if (volume !== 1) attributes.push(`volume='${volume <= 0 ? 'silent' : `${volume > 1 ? '+' : ''}${(20 * Math.log10(volume)).toFixed(1)}dB`}'`);
+      markup = `<prosody ${attributes.join(' ')}>${markup}</prosody>`;
+    }
+    if (node.language && node.language !== rootLanguage) {
+      markup = `<voice xml:lang='${node.language}'>${markup}</voice>`;
+    }
+    return markup;
+  }).join('');
+
+  const header = sapiHeader
+    ? `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='${rootLanguage || 'en'}'>`
+    : `<speak${rootLanguage ? ` xml:lang='${rootLanguage}'` : ''}>`;
+  return `${header}${body}</speak>`;
+}
+
+/**
+ * Gain applied in the mixer for engines without native prosody
+ */
+export function getProsodyGain(prosody: SsmlProsody): number {
+  const emphasisGain = prosody.emphasis === 'strong' ? 1.3 : prosody.emphasis === 'moderate' ? 1.15 : prosody.emphasis === 'reduced' ? 0.75 : 1;
+  return prosody.volume * emphasisGain;
+}
+
+function sameProsody(a: SsmlProsody, b: SsmlProsody): boolean {
+  return a.rate === b.rate && a.pitch === b.pitch && a.volume === b.volume && a.emphasis === b.emphasis;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function parseBreak(attributes: Record<string, string>): number {
+  const time = attributes.time?.trim().toLowerCase();
+  if (time) {
+    const match = time.match(/^([\d.]+)\s*(ms|s)?$/);
+    if (match) {
+      const value = parseFloat(match[1]);
+      return Math.min(10000, Math.round(match[2] === 'ms' ? value : value * 1000));
+    }
+  }
+  return BREAK_STRENGTHS[attributes.strength?.toLowerCase() || 'medium'] ?? BREAK_STRENGTHS.medium;
+}
+
+/**
+ * Keywords, percentages ("150%", "+20%") or plain multipliers
+ */
+function parseRelative(value: string | undefined, keywords: Record<string, number>, fallback: number): number {
+  if (!value) return fallback;
+  const normalized = value.trim().toLowerCase();
+  if (normalized in keywords) return keywords[normalized];
+
+  const match = normalized.match(/^([+-]?[\d.]+)\s*(%)?$/);
+  if (!match) return fallback;
+  const number = parseFloat(match[1]);
+  if (!match[2]) return Math.max(0, number);
+  // Signed percentages are changes, unsigned ones are absolute
+  return Math.max(0, /^[+-]/.test(normalized) ? 1 + number / 100 : number / 100);
+}
+
+function parsePitch(value: string | undefined): number {
+  if (!value) return 0;
+  const normalized = value.trim().toLowerCase();
+  if (normalized in PITCH_KEYWORDS) return PITCH_KEYWORDS[normalized];
+
+  const match = normalized.match(/^([+-]?[\d.]+)\s*(%|st|hz)?$/);
+  if (!match) return 0;
+  const number = parseFloat(match[1]);
+  // A semitone is about 6% in frequency
+  return match[2] === 'st' ? number * 6 : match[2] === 'hz' ? 0 : number;
+}
+
+function parseVolume(value: string | undefined): number {
+  if (!value) return 1;
+  const normalized = value.trim().toLowerCase();
+  if (normalized in VOLUME_KEYWORDS) return VOLUME_KEYWORDS[normalized];
+
+  const decibels = normalized.match(/^([+-]?[\d.]+)\s*db$/);
+  if (decibels) return Math.pow(10, parseFloat(decibels[1]) / 20);
+  return parseRelative(normalized, {}, 1);
+}
+
+/**
+ * Apply <say-as> to the text of a run
+ */
+function interpretText(text: string, context: ParseContext): string {
+  switch (context.interpretAs) {
+    case 'characters':
+    case 'spell-out':
+      return Array.from(text.replace(/\s+/g, '')).join(' ');
+    case 'digits':
+      return text.replace(/\d/g, digit => ` ${digit} `).replace(/\s+/g, ' ').trim();
+    case 'date':
+      return formatDate(text.trim(), context.format, context.language) || text;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Spell out a numeric date in the run's language; format is the field order (ymd, dmy, mdy)
+ */
+function formatDate(text: string, format: string | undefined, language: string | undefined): string | null {
+  const parts = text.split(/[-./\s]+/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  const order = (format || (parts[0] > 31 ? 'ymd' : 'dmy')).toLowerCase();
+  const field = (letter: string) => parts[order.indexOf(letter)];
+  const year = field('y');
+  const month = field('m');
+  const day = field('d');
+  if (!year || !month || !day || month > 12 || day > 31) return null;
+
+  try {
+    return new Date(year, month - 1, day).toLocaleDateString(language || 'en', { year: 'numeric', month: 'long', day: 'numeric' });
+  } catch (error) {
+    return null;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(?:x([\da-f]+)|(\d+));/gi, (match, hex, decimal) => decodeCodePoint(match, hex ? parseInt(hex, 16) : parseInt(decimal, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Numeric entities outside the Unicode range stay as written
+ */
+function decodeCodePoint(entity: string, code: number): string {
+  return Number.isSafeInteger(code) && code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+}
+
+function encodeEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
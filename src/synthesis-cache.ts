@@ -0,0 +1,160 @@
+/**
+ * Synthesis Cache - Content-addressed on-disk audio cache
+ * Entries are named by a hash of everything that affects the audio, so a
+ * repeated phrase is served from disk; size and age are capped with LRU eviction
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getVoiceConfig } from './voice-config.js';
+
+export interface SynthesisCacheOptions {
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+interface CacheEntry {
+  filePath: string;
+  size: number;
+  lastUsed: number;
+}
+
+// Speech in flight may still play cached files (queued look-ahead, later chunks), so eviction waits for it
+let evictionHolds = 0;
+const pendingEvictions = new Set<SynthesisCache>();
+
+/**
+ * Hold off eviction in every cache until the returned release is called
+ * Evictions requested meanwhile run once the last hold is released, i.e. when no speech is in flight
+ */
+export function holdCacheEviction(): () => void {
+  evictionHolds++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    evictionHolds--;
+    if (evictionHolds > 0) return;
+
+    for (const cache of pendingEvictions) {
+      cache.evict();
+    }
+    pendingEvictions.clear();
+  };
+}
+
+/**
+ * Create a cache with limits from the config file's retention settings (or their environment overrides)
+ * Limits are read on every eviction, so a config reload applies to the next store
+ */
+export function createSynthesisCache(directory: string): SynthesisCache {
+  return new SynthesisCache(directory, () => {
+    const { retention } = getVoiceConfig();
+    return {
+      maxAgeMs: retention.cacheMaxAgeHours * 60 * 60 * 1000,
+      maxBytes: retention.cacheMaxMb * 1024 * 1024,
+    };
+  });
+}
+
+export class SynthesisCache {
+  private directory: string;
+  private limits: () => SynthesisCacheOptions;
+
+  constructor(directory: string, options: SynthesisCacheOptions | (() => SynthesisCacheOptions)) {
+    this.directory = directory;
+    this.limits = typeof options === 'function' ? options : () => options;
+  }
+
+  /**
+   * Build a cache key from the synthesis parameters
+   */
+  static key(parts: Record<string, string | number | boolean | undefined>): string {
+    const canonical = JSON.stringify(Object.keys(parts).sort().map(name => [name, parts[name]]));
+    return crypto.createHash('sha256').update(canonical).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Check for an entry without touching its last-used time
+   */
+  has(key: string, extension: string): boolean {
+    return fs.existsSync(this.entryPath(key, extension));
+  }
+
+  /**
+   * Path of a cached entry, or null on a miss
+   * A hit refreshes the entry's last-used time for LRU eviction
+   */
+  get(key: string, extension: string): string | null {
+    const filePath = this.entryPath(key, extension);
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+    } catch (error) {
+      // Entry still usable even if the timestamp cannot be refreshed
+    }
+    return filePath;
+  }
+
+  /**
+   * Store audio and enforce the cache limits
+   */
+  put(key: string, extension: string, audio: Buffer): string {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const filePath = this.entryPath(key, extension);
+    fs.writeFileSync(filePath, audio);
+    this.evict(filePath);
+    return filePath;
+  }
+
+  /**
+   * Drop entries past the age limit, then least recently used ones until under the size limit
+   * `keep` protects an entry that is about to be played; while speech is in flight the eviction is deferred
+   */
+  evict(keep?: string): void {
+    if (evictionHolds > 0) {
+      pendingEvictions.add(this);
+      return;
+    }
+    if (!fs.existsSync(this.directory)) return;
+
+    try {
+      const now = Date.now();
+      const { maxBytes, maxAgeMs } = this.limits();
+      const entries: CacheEntry[] = [];
+
+      for (const file of fs.readdirSync(this.directory)) {
+        const filePath = path.join(this.directory, file);
+        const stats = fs.statSync(filePath);
+        if (!stats.isFile()) continue;
+        entries.push({ filePath, size: stats.size, lastUsed: stats.mtime.getTime() });
+      }
+
+      // Oldest first
+      entries.sort((a, b) => a.lastUsed - b.lastUsed);
+      let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+      for (const entry of entries) {
+        if (entry.filePath === keep) continue;
+
+        const expired = now - entry.lastUsed > maxAgeMs;
+        if (!expired && totalBytes <= maxBytes) break;
+
+        fs.unlinkSync(entry.filePath);
+        totalBytes -= entry.size;
+      }
+    } catch (error) {
+      // Silent error handling
+    }
+  }
+
+  /**
+   * Where an entry is, or will be, stored
+   */
+  entryPath(key: string, extension: string): string {
+    return path.join(this.directory, `${key}.${extension}`);
+  }
+}
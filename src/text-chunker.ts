@@ -0,0 +1,142 @@
+/**
+ * Text Chunker - Split long text into synthesis-sized chunks
+ * Chunks end at paragraph and sentence boundaries where possible; a short first
+ * chunk gets playback going while the rest is still being synthesized
+ */
+
+export interface TextChunkOptions {
+  maxChars: number;        // Hard limit per chunk
+  firstChunkChars: number; // Target size of the first chunk
+  concurrency: number;     // Chunks synthesized at the same time
+}
+
+/**
+ * Read chunking settings from the environment, capped by an engine's input limit
+ */
+export function loadChunkOptions(engineLimit?: number, env: NodeJS.ProcessEnv = process.env): TextChunkOptions {
+  const configured = parseInt(env.TTS_CHUNK_MAX_CHARS || '', 10);
+  const maxChars = Math.min(configured > 0 ? configured : 1000, engineLimit || Infinity);
+  const firstChunk = parseInt(env.TTS_FIRST_CHUNK_CHARS || '', 10);
+  const concurrency = parseInt(env.TTS_CHUNK_CONCURRENCY || '', 10);
+  return {
+    maxChars,
+    firstChunkChars: Math.min(firstChunk > 0 ? firstChunk : 200, maxChars),
+    concurrency: concurrency > 0 ? concurrency : 2,
+  };
+}
+
+/**
+ * Split text into chunks no longer than maxChars
+ * Text that already fits is returned as a single chunk
+ */
+export function splitIntoChunks(text: string, options: TextChunkOptions): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= options.maxChars) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  const limit = () => chunks.length === 0 ? options.firstChunkChars : options.maxChars;
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of trimmed.split(/\n\s*\n/)) {
+    for (const sentence of splitSentences(paragraph)) {
+      for (const piece of splitOversized(sentence, options.maxChars)) {
+        const joined = current ? `${current} ${piece}` : piece;
+        // The first chunk may run past its target rather than cut a sentence; no chunk passes maxChars
+        if (joined.length > options.maxChars || (current && joined.length > limit())) {
+          flush();
+          current = piece;
+        } else {
+          current = joined;
+        }
+      }
+    }
+
+    // Prefer ending a chunk with its paragraph once it is reasonably full
+    if (current.length >= limit() / 2) {
+      flush();
+    } else if (current) {
+      current += '\n\n';
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?…。！？])\s+/)
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+const BREAK_POINTS = [/(?<=[,;:])\s+/, /\s+/];
+
+/**
+ * Break a sentence longer than the limit at clause boundaries, then words, then characters
+ */
+function splitOversized(text: string, maxChars: number, depth: number = 0): string[] {
+  if (text.length <= maxChars) return [text];
+  if (depth >= BREAK_POINTS.length) {
+    const slices: string[] = [];
+    for (let start = 0; start < text.length; start += maxChars) {
+      slices.push(text.substring(start, start + maxChars));
+    }
+    return slices;
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const part of text.split(BREAK_POINTS[depth]).flatMap(part => splitOversized(part, maxChars, depth + 1))) {
+    const joined = current ? `${current} ${part}` : part;
+    if (joined.length > maxChars) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+/**
+ * Run tasks in item order with at most `limit` running at once
+ * Returns one promise per item, so callers can consume results as they finish
+ */
+export function runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Array<Promise<R>> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next(); // Slot passes straight to the next task
+    } else {
+      active--;
+    }
+  };
+
+  return items.map(async (item, index) => {
+    await acquire();
+    try {
+      return await task(item, index);
+    } finally {
+      release();
+    }
+  });
+}
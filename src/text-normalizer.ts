@@ -0,0 +1,326 @@
+/**
+ * Text Normalizer - Make agent output speakable before it reaches an engine
+ * Markdown pass: code blocks, markdown syntax, URLs, file paths and emoji (run once per utterance);
+ * speech pass: abbreviations, number formats and units in the language of each segment
+ */
+
+export type CodeBlockMode = 'summarize' | 'skip';
+export type EmojiMode = 'drop' | 'name';
+
+export interface NormalizeOptions {
+  enabled: boolean;
+  codeBlocks: CodeBlockMode;
+  emoji: EmojiMode;
+}
+
+interface LanguageRules {
+  and: string;
+  to: string;            // Ranges: 10-20
+  point: string;         // Version separators: 1.2.3
+  version: string;
+  decimalComma: boolean; // Decimal separator is a comma; thousands use dots
+  link: (domain: string) => string;
+  codeBlock: (lines: number) => string;
+  abbreviations: Record<string, string>;
+  listEnders: string[];   // Abbreviations that usually close a sentence, so a capital after them starts a new one
+  units: Record<string, string[]>; // [singular, plural] or Polish [one, few, many, other]
+}
+
+const RULES: Record<string, LanguageRules> = {
+  en: {
+    and: 'and',
+    to: 'to',
+    point: 'point',
+    version: 'version',
+    decimalComma: false,
+    link: domain => `link to ${domain}`,
+    codeBlock: lines => `code block with ${lines} line${lines === 1 ? '' : 's'}`,
+    abbreviations: {
+      'e.g.': 'for example', 'i.e.': 'that is', 'etc.': 'et cetera', 'vs.': 'versus',
+      'approx.': 'approximately', 'w/o': 'without', 'w/': 'with', 'min.': 'minimum', 'max.': 'maximum',
+    },
+    listEnders: ['etc.', 'min.', 'max.'],
+    units: {
+      '%': ['percent', 'percent'], 'ms': ['millisecond', 'milliseconds'], 's': ['second', 'seconds'],
+      'sec': ['second', 'seconds'], 'min': ['minute', 'minutes'], 'h': ['hour', 'hours'],
+      'KB': ['kilobyte', 'kilobytes'], 'MB': ['megabyte', 'megabytes'], 'GB': ['gigabyte', 'gigabytes'],
+      'TB': ['terabyte', 'terabytes'], 'km': ['kilometer', 'kilometers'], 'kg': ['kilogram', 'kilograms'],
+      'km/h': ['kilometer per hour', 'kilometers per hour'], '°C': ['degree Celsius', 'degrees Celsius'],
+      '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+    },
+  },
+  pl: {
+    and: 'i',
+    to: 'do',
+    point: 'kropka',
+    version: 'wersja',
+    decimalComma: true,
+    link: domain => `link do ${domain}`,
+    codeBlock: lines => `blok kodu, liczba linii: ${lines}`,
+    abbreviations: {
+      'np.': 'na przykład', 'tzn.': 'to znaczy', 'itd.': 'i tak dalej', 'itp.': 'i tym podobne',
+      'm.in.': 'między innymi', 'ok.': 'około', 'tj.': 'to jest', 'tzw.': 'tak zwany', 'wg': 'według',
+    },
+    listEnders: ['itd.', 'itp.'],
+    units: {
+      '%': ['procent', 'procent', 'procent', 'procent'],
+      'ms': ['milisekunda', 'milisekundy', 'milisekund', 'milisekundy'],
+      's': ['sekunda', 'sekundy', 'sekund', 'sekundy'],
+      'sek.': ['sekunda', 'sekundy', 'sekund', 'sekundy'],
+      'min': ['minuta', 'minuty', 'minut', 'minuty'],
+      'h': ['godzina', 'godziny', 'godzin', 'godziny'],
+      'KB': ['kilobajt', 'kilobajty', 'kilobajtów', 'kilobajta'],
+      'MB': ['megabajt', 'megabajty', 'megabajtów', 'megabajta'],
+      'GB': ['gigabajt', 'gigabajty', 'gigabajtów', 'gigabajta'],
+      'TB': ['terabajt', 'terabajty', 'terabajtów', 'terabajta'],
+      'km': ['kilometr', 'kilometry', 'kilometrów', 'kilometra'],
+      'kg': ['kilogram', 'kilogramy', 'kilogramów', 'kilograma'],
+      'km/h': ['kilometr na godzinę', 'kilometry na godzinę', 'kilometrów na godzinę', 'kilometra na godzinę'],
+      '°C': ['stopień Celsjusza', 'stopnie Celsjusza', 'stopni Celsjusza', 'stopnia Celsjusza'],
+    },
+  },
+  de: {
+    and: 'und',
+    to: 'bis',
+    point: 'Punkt',
+    version: 'Version',
+    decimalComma: true,
+    link: domain => `Link zu ${domain}`,
+    codeBlock: lines => `Codeblock mit ${lines} Zeile${lines === 1 ? '' : 'n'}`,
+    abbreviations: {
+      'z.B.': 'zum Beispiel', 'z. B.': 'zum Beispiel', 'd.h.': 'das heißt', 'd. h.': 'das heißt',
+      'usw.': 'und so weiter', 'bzw.': 'beziehungsweise', 'ca.': 'circa', 'ggf.': 'gegebenenfalls', 'inkl.': 'inklusive',
+    },
+    listEnders: ['usw.', 'ggf.'],
+    units: {
+      '%': ['Prozent', 'Prozent'], 'ms': ['Millisekunde', 'Millisekunden'], 's': ['Sekunde', 'Sekunden'],
+      'Sek.': ['Sekunde', 'Sekunden'], 'min': ['Minute', 'Minuten'], 'h': ['Stunde', 'Stunden'],
+      'KB': ['Kilobyte', 'Kilobyte'], 'MB': ['Megabyte', 'Megabyte'], 'GB': ['Gigabyte', 'Gigabyte'],
+      'TB': ['Terabyte', 'Terabyte'], 'km': ['Kilometer', 'Kilometer'], 'kg': ['Kilogramm', 'Kilogramm'],
+      'km/h': ['Kilometer pro Stunde', 'Kilometer pro Stunde'], '°C': ['Grad Celsius', 'Grad Celsius'],
+    },
+  },
+  fr: {
+    and: 'et',
+    to: 'à',
+    point: 'point',
+    version: 'version',
+    decimalComma: true,
+    link: domain => `lien vers ${domain}`,
+    codeBlock: lines => `bloc de code de ${lines} ligne${lines > 1 ? 's' : ''}`,
+    abbreviations: {
+      'p.ex.': 'par exemple', 'p. ex.': 'par exemple', 'c.-à-d.': "c'est-à-dire", 'etc.': 'et cetera', 'env.': 'environ',
+    },
+    listEnders: ['etc.'],
+    units: {
+      '%': ['pour cent', 'pour cent'], 'ms': ['milliseconde', 'millisecondes'], 's': ['seconde', 'secondes'],
+      'min': ['minute', 'minutes'], 'h': ['heure', 'heures'], 'Ko': ['kilooctet', 'kilooctets'],
+      'Mo': ['mégaoctet', 'mégaoctets'], 'Go': ['gigaoctet', 'gigaoctets'], 'To': ['téraoctet', 'téraoctets'],
+      'km': ['kilomètre', 'kilomètres'], 'kg': ['kilogramme', 'kilogrammes'],
+      'km/h': ['kilomètre par heure', 'kilomètres par heure'], '°C': ['degré Celsius', 'degrés Celsius'],
+    },
+  },
+  es: {
+    and: 'y',
+    to: 'a',
+    point: 'punto',
+    version: 'versión',
+    decimalComma: true,
+    link: domain => `enlace a ${domain}`,
+    codeBlock: lines => `bloque de código de ${lines} línea${lines === 1 ? '' : 's'}`,
+    abbreviations: {
+      'p.ej.': 'por ejemplo', 'p. ej.': 'por ejemplo', 'etc.': 'etcétera', 'aprox.': 'aproximadamente', 'Sr.': 'señor', 'Sra.': 'señora',
+    },
+    listEnders: ['etc.'],
+    units: {
+      '%': ['por ciento', 'por ciento'], 'ms': ['milisegundo', 'milisegundos'], 's': ['segundo', 'segundos'],
+      'min': ['minuto', 'minutos'], 'h': ['hora', 'horas'], 'KB': ['kilobyte', 'kilobytes'],
+      'MB': ['megabyte', 'megabytes'], 'GB': ['gigabyte', 'gigabytes'], 'TB': ['terabyte', 'terabytes'],
+      'km': ['kilómetro', 'kilómetros'], 'kg': ['kilogramo', 'kilogramos'],
+      'km/h': ['kilómetro por hora', 'kilómetros por hora'], '°C': ['grado Celsius', 'grados Celsius'],
+    },
+  },
+};
+
+// Names for the emoji agents use most; others are dropped even in "name" mode
+const EMOJI_NAMES: Record<string, string> = {
+  '👍': 'thumbs up', '👎': 'thumbs down', '✅': 'check mark', '❌': 'cross mark', '⚠': 'warning',
+  '🎉': 'celebration', '🚀': 'rocket', '🔥': 'fire', '💡': 'idea', '🐛': 'bug', '✨': 'sparkles',
+  '📝': 'note', '📦': 'package', '🔧': 'wrench', '🛠': 'tools', '🎵': 'music', '🎯': 'target',
+  '💾': 'save', '🔊': 'speaker', '❤': 'heart', '😀': 'smile', '😂': 'laughing', '🙂': 'smile',
+  '😉': 'wink', '🤔': 'thinking', '👀': 'eyes', '💯': 'hundred points', '⭐': 'star', '🌍': 'globe',
+  '🔒': 'lock', '⏳': 'hourglass', '🧠': 'brain', '🤖': 'robot', '📊': 'chart', '🔗': 'link',
+  '👋': 'wave', '🙏': 'thanks', '💥': 'boom', '🐢': 'turtle', '⚡': 'lightning',
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:️|[\u{1F3FB}-\u{1F3FF}]|‍\p{Extended_Pictographic}️?)*/gu;
+const CODE_FENCE_PATTERN = /^[ \t]*(```|~~~)[^\n]*\n([\s\S]*?)(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()"'`]+[^\s<>()"'`.,;:!?]/gi;
+// Absolute, home-relative or dotted paths, and relative paths ending in a file name (not "and/or" or "km/h")
+const PATH_PATTERN = /(?:\b[A-Za-z]:\\|(?<![\w.~/\\:])(?:~\/|\.{1,2}\/|\/))(?:[\w.@-]+[\\/])*[\w.@-]+|\b(?:[\w.@-]+\/)+[\w@-]+\.[A-Za-z0-9]{1,8}\b/g;
+
+/**
+ * Read normalization settings from the environment
+ */
+export function loadNormalizeOptions(env: NodeJS.ProcessEnv = process.env): NormalizeOptions {
+  return {
+    enabled: env.TTS_NORMALIZE !== 'false',
+    codeBlocks: env.TTS_CODE_BLOCKS === 'skip' ? 'skip' : 'summarize',
+    emoji: env.TTS_EMOJI === 'name' ? 'name' : 'drop',
+  };
+}
+
+/**
+ * Markdown pass: turn raw agent markdown into plain prose
+ * Inline code keeps its backticks so the segmenter can still read it in English
+ */
+export function normalizeMarkdown(text: string, language: string | undefined, options: NormalizeOptions): string {
+  if (!options.enabled) return text;
+  const rules = getRules(language);
+
+  // Code blocks first, so nothing inside them is treated as markdown
+  let result = text.replace(CODE_FENCE_PATTERN, (_match, _fence, body: string) => {
+    if (options.codeBlocks === 'skip') return '\n';
+    const lines = body.split('\n').filter(line => line.trim().length > 0).length;
+    return `\n${rules.codeBlock(lines)}.\n`;
+  });
+
+  // Inline code is set aside so identifiers like __init__ survive the emphasis rules
+  const codeSpans: string[] = [];
+  result = result.replace(/`([^`\n]+)`/g, (_match, code: string) => {
+    codeSpans.push(shortenReferences(code, rules));
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  result = result
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<(https?:\/\/[^>]+)>/g, '$1');
+  result = shortenReferences(result, rules);
+
+  result = result.split('\n').map(normalizeLine).join('\n')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|\W)_(?=\S)([^_\n]*?\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1');
+
+  result = result.replace(EMOJI_PATTERN, emoji => {
+    const name = options.emoji === 'name' ? EMOJI_NAMES[emoji.replace(/️/g, '')] : undefined;
+    return name ? ` ${name} ` : ' ';
+  });
+
+  return result
+    .replace(/\u0000(\d+)\u0000/g, (_match, index) => `\`${codeSpans[Number(index)]}\``)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ +([.,;:!?])/g, '$1')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Speech pass: abbreviations, versions, ranges, units and number formats in one language
+ * Runs on text that goes to a single voice, so the rules match what that voice reads
+ */
+export function expandForSpeech(text: string, language: string | undefined, options: NormalizeOptions): string {
+  if (!options.enabled) return text;
+  const rules = getRules(language);
+  const plural = new Intl.PluralRules(RULES[language || ''] ? language : 'en');
+
+  let result = text.replace(/`/g, '');
+
+  for (const [abbreviation, expansion] of Object.entries(rules.abbreviations)) {
+    // After a number an abbreviation that is also a unit is the unit: "5 min." is five minutes, not "5 minimum"
+    const unitAfterNumber = rules.units[abbreviation.replace(/\.$/, '')] ? '(?<!\\d\\s?)' : '';
+    const pattern = new RegExp(`${unitAfterNumber}(^|[\\s(])${escapeRegExp(abbreviation)}(?=[\\s,;:)]|$)`, 'g');
+    result = result.replace(pattern, (match, before: string, offset: number, input: string) => {
+      // The abbreviation's period also ended the sentence: at the end of the text or a line, or before a capital after "etc."
+      const rest = input.slice(offset + match.length);
+      const endsSentence = abbreviation.endsWith('.')
+        && (/^[ \t]*(\n|$)/.test(rest) || (rules.listEnders.includes(abbreviation) && /^\s+\p{Lu}/u.test(rest)));
+      return `${before}${expansion}${endsSentence ? '.' : ''}`;
+    });
+  }
+
+  const versionWords = [rules.version, rules.version[0].toUpperCase() + rules.version.slice(1)].map(escapeRegExp).join('|');
+  const readDotted = (numbers: string) => numbers.split('.').length > 2 ? numbers.split('.').join(` ${rules.point} `) : numbers;
+  result = result
+    // Versions and dotted numbers such as IP addresses: v1.2.3, 10.0.0.1
+    .replace(new RegExp(`(?:(${versionWords})\\s+)?\\bv(\\d+(?:\\.\\d+)*)\\b`, 'gu'),
+      (_match, word: string | undefined, numbers: string) => `${word || rules.version} ${readDotted(numbers)}`)
+    .replace(/\b\d+(?:\.\d+){2,}\b/g, readDotted)
+    // Thousands separators: 1,000,000 (or 1.000.000 where the comma is decimal)
+    .replace(rules.decimalComma ? /\b\d{1,3}(?:\.\d{3})+(?!\.?\d)/g : /\b\d{1,3}(?:,\d{3})+(?!,?\d)/g, match => match.replace(/[.,]/g, ''))
+    // Ranges: 10-20 or 10 – 20, but not dates like 2025-01-31 or a spaced minus as in 3 - 2 = 1
+    .replace(/(?<![\d-])(\d+)(?:-|\s?–\s?)(\d+)(?![\d-])/g, `$1 ${rules.to} $2`);
+
+  // Units after a number, longest first so km/h wins over km
+  // A bare "s" needs the space: "5 s" is seconds, "the 2020s" a decade
+  const units = Object.keys(rules.units).filter(unit => unit !== 's').sort((a, b) => b.length - a.length);
+  const unitPattern = new RegExp(`(\\d+(?:[.,]\\d+)?)(?:\\s?(${units.map(escapeRegExp).join('|')})|\\s(s))(?![\\p{L}\\d])`, 'gu');
+  result = result.replace(unitPattern, (_match, number: string, attached: string | undefined, seconds: string | undefined) => {
+    const unit = attached || seconds!;
+    const value = parseFloat(number.replace(',', '.'));
+    return `${number} ${selectForm(rules.units[unit], plural.select(value))}`;
+  });
+
+  if (rules.decimalComma) {
+    result = result.replace(/(\d)\.(\d)/g, '$1,$2');
+  }
+
+  return result.replace(/\s&\s/g, ` ${rules.and} `).replace(/[ \t]+/g, ' ');
+}
+
+function getRules(language: string | undefined): LanguageRules {
+  return RULES[(language || 'en').toLowerCase()] || RULES.en;
+}
+
+/**
+ * URLs become "link to domain", paths their last component
+ */
+function shortenReferences(text: string, rules: LanguageRules): string {
+  return text
+    .replace(URL_PATTERN, url => rules.link(url.replace(/^(?:https?:\/\/)?(?:www\.)?/i, '').split(/[/?#:]/)[0]))
+    .replace(PATH_PATTERN, filePath => filePath.split(/[\\/]/).filter(Boolean).pop() || filePath);
+}
+
+/**
+ * Strip block-level markdown from one line; list items and headings end as sentences
+ */
+function normalizeLine(line: string): string {
+  // Horizontal rules and table separator rows say nothing
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/.test(line)) {
+    return '';
+  }
+
+  let content = line.replace(/^\s*(>\s*)+/, '');
+  const heading = /^\s*#{1,6}\s+/.test(content);
+  const listItem = /^\s*([-*+]|\d+[.)])\s+/.test(content);
+  content = content
+    .replace(/^\s*#{1,6}\s+/, '')
+    .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '');
+
+  // Table rows read as comma-separated cells
+  if (/^\s*\|.*\|\s*$/.test(content)) {
+    content = content.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).filter(Boolean).join(', ');
+    return content ? `${content}.` : '';
+  }
+
+  if ((heading || listItem) && content.trim() && !/[.!?:;,…]\s*$/.test(content)) {
+    content = `${content.trimEnd()}.`;
+  }
+  return content;
+}
+
+/**
+ * Pick a unit form by plural category: [singular, plural] or [one, few, many, other]
+ */
+function selectForm(forms: string[], category: string): string {
+  if (forms.length === 2) return category === 'one' ? forms[0] : forms[1];
+  const index = ['one', 'few', 'many', 'other'].indexOf(category);
+  return forms[index === -1 ? 3 : index];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,152 @@
+/**
+ * Text Segmenter - Split mixed-language text into language-tagged segments
+ * Explicit markup (`[en]config.json[/en]`) always wins; otherwise code spans are read
+ * in English and prose is split by script and sentence, each piece detected on its own
+ */
+
+import { detectLanguage, getScript } from './language-detector.js';
+
+export interface TextSegment {
+  text: string;
+  language?: string; // Undefined = the utterance language
+  source: 'markup' | 'code' | 'detected';
+}
+
+export interface SegmentOptions {
+  auto: boolean;            // Detect segments in unmarked text
+  minConfidence: number;    // Detections below this keep the utterance language
+  defaultLanguage?: string; // Utterance language for everything not tagged
+}
+
+const MARKUP_PATTERN = /\[([a-z]{2,3}(?:-[a-z]{2})?)\]([\s\S]*?)\[\/\1\]/gi;
+const CODE_SPAN_PATTERN = /`([^`\n]+)`/g;
+
+// Pieces with fewer letters than this are too short to identify reliably
+const MIN_DETECTABLE_LETTERS = 12;
+
+export function hasLanguageMarkup(text: string): boolean {
+  return new RegExp(MARKUP_PATTERN.source, 'i').test(text);
+}
+
+/**
+ * Remove language markup, keeping the marked text
+ */
+export function stripLanguageMarkup(text: string): string {
+  return text.replace(MARKUP_PATTERN, (_match, _language, inner) => inner);
+}
+
+/**
+ * Text outside any language markup, for detecting the utterance language
+ */
+export function removeMarkedSegments(text: string): string {
+  return text.replace(MARKUP_PATTERN, ' ');
+}
+
+/**
+ * Split text into segments and merge neighbours that ended up in the same language
+ */
+export function segmentText(text: string, supportedLanguages: string[], options: SegmentOptions): TextSegment[] {
+  const supported = supportedLanguages.map(language => language.toLowerCase());
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    segments.push(...splitUnmarked(text.substring(lastIndex, match.index), supported, options));
+    // Regional tags such as en-GB select by base language
+    segments.push({ text: match[2], language: match[1].toLowerCase().split('-')[0], source: 'markup' });
+    lastIndex = match.index! + match[0].length;
+  }
+  segments.push(...splitUnmarked(text.substring(lastIndex), supported, options));
+
+  return mergeSegments(segments.map(segment => ({ ...segment, language: segment.language || options.defaultLanguage })));
+}
+
+function splitUnmarked(text: string, supported: string[], options: SegmentOptions): TextSegment[] {
+  if (!text) return [];
+  if (!options.auto) return [{ text, source: 'detected' }];
+
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CODE_SPAN_PATTERN)) {
+    segments.push(...detectProse(text.substring(lastIndex, match.index), supported, options));
+    // Identifiers and file names sound right in English
+    segments.push({ text: match[1], language: supported.includes('en') ? 'en' : undefined, source: 'code' });
+    lastIndex = match.index! + match[0].length;
+  }
+  segments.push(...detectProse(text.substring(lastIndex), supported, options));
+
+  return segments;
+}
+
+/**
+ * Split prose at script changes and sentence ends, then detect each piece
+ */
+function detectProse(text: string, supported: string[], options: SegmentOptions): TextSegment[] {
+  return splitByScript(text)
+    .flatMap(run => run.split(/(?<=[.!?…。！？])\s+/).map((sentence, index, all) => index < all.length - 1 ? `${sentence} ` : sentence))
+    .filter(piece => piece.length > 0)
+    .map(piece => {
+      const letters = (piece.match(/\p{L}/gu) || []).length;
+      const latin = isLatinOnly(piece);
+      const detection = letters >= MIN_DETECTABLE_LETTERS || !latin ? detectLanguage(piece, supported) : null;
+      // A non-Latin run is better off with any voice of its script than with the utterance voice
+      const confident = detection && (detection.confidence >= options.minConfidence || !latin);
+      return {
+        text: piece,
+        language: confident ? detection.language : undefined,
+        source: 'detected' as const,
+      };
+    });
+}
+
+/**
+ * Runs of one writing system; Han and kana stay together since Japanese mixes them
+ */
+function splitByScript(text: string): string[] {
+  const runs: string[] = [];
+  let current = '';
+  let currentScript: string | null = null;
+
+  for (const char of text) {
+    let script = getScript(char);
+    if (script === 'kana' || script === 'han') script = 'cjk';
+
+    if (script && currentScript && script !== currentScript) {
+      runs.push(current);
+      current = '';
+    }
+    if (script) currentScript = script;
+    current += char;
+  }
+  if (current) runs.push(current);
+
+  return runs;
+}
+
+function isLatinOnly(text: string): boolean {
+  return Array.from(text).every(char => {
+    const script = getScript(char);
+    return script === null || script === 'latin';
+  });
+}
+
+/**
+ * Join neighbours in the same language; whitespace-only pieces ride along with the previous one
+ */
+function mergeSegments(segments: TextSegment[]): TextSegment[] {
+  const merged: TextSegment[] = [];
+
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    if (previous && (previous.language === segment.language || segment.text.trim().length === 0)) {
+      previous.text += segment.text;
+      continue;
+    }
+    merged.push({ ...segment });
+  }
+
+  return merged
+    .map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() }))
+    .filter(segment => segment.text.length > 0);
+}
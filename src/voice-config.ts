@@ -0,0 +1,484 @@
+/**
+ * Voice Config - User config file for defaults, engines, echo presets and retention
+ * Read from --config <path>, TTS_CONFIG_PATH, or config.json in the XDG config directory;
+ * the file is watched and re-read on change, environment variables override it, and
+ * configure_voice changes override both for the rest of the session
+ *
+ * {
+ *   "defaults": { "engine": "piper", "voices": { "en": "en_US-ryan-high", "pl": "Krzysztof" }, "speed": 1.1, "echo": "subtle", "preferGender": "female" },
+ *   "engines": { "fallback": true, "fallbackChain": ["openai", "piper", "platform"] },
+ *   "echoPresets": { "hall": { "delay": 180, "volume": [0.25, 0.12, 0.05], "repeats": 3 } },
+ *   "retention": { "cacheMaxMb": 500, "cacheMaxAgeHours": 72, "historySize": 100 }
+ * }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+export type GenderPreference = 'male' | 'female' | 'none';
+
+export const GENDER_PREFERENCES: GenderPreference[] = ['male', 'female', 'none'];
+
+export interface EchoPreset {
+  delay: number;              // ms between repeats
+  volume: number | number[];  // Starting volume 0-1, or one volume per repeat
+  repeats: number;
+}
+
+export interface VoiceConfig {
+  defaults: {
+    engine?: string;                 // Engine used when `say` names none; unavailable = by priority
+    voices: Record<string, string>;  // Language code -> voice id, for calls without a voice
+    openaiVoice?: string;            // Default voice of OpenAI-compatible engines (DEFAULT_TTS_VOICE)
+    openaiModel?: string;            // Default OpenAI model (DEFAULT_TTS_MODEL)
+    speed: number;                   // OpenAI-compatible speed 0.25-4.0 (DEFAULT_TTS_SPEED)
+    echo: string | false;            // Echo preset used when echo is on; false = echo only when asked
+    preferGender: GenderPreference;  // Tiebreak between platform voices of the same quality
+    muted: boolean;                  // say returns without speaking
+  };
+  engines: {
+    fallback: boolean;               // Try other engines when the selected one fails
+    fallbackChain: string[];         // Fallback order by engine name; empty = by priority (TTS_FALLBACK_CHAIN)
+  };
+  echoPresets: Record<string, EchoPreset>;
+  retention: {
+    cacheMaxMb: number;              // Synthesis cache size (TTS_CACHE_MAX_MB)
+    cacheMaxAgeHours: number;        // Synthesis cache age (TTS_CACHE_MAX_AGE_HOURS, CLEANUP_INTERVAL_HOURS)
+    historySize: number;             // Finished speech jobs kept for speech_status and speech://history
+  };
+}
+
+// Claude Signature Echo plus lighter and heavier variants
+export const DEFAULT_ECHO_PRESETS: Record<string, EchoPreset> = {
+  signature: { delay: 110, volume: [0.3, 0.1, 0.03, 0.01], repeats: 4 },
+  subtle: { delay: 80, volume: [0.15, 0.05], repeats: 2 },
+  cathedral: { delay: 220, volume: [0.4, 0.25, 0.15, 0.08, 0.04, 0.02], repeats: 6 },
+};
+
+export const DEFAULT_VOICE_CONFIG: VoiceConfig = {
+  defaults: { voices: {}, speed: 1.0, echo: 'signature', preferGender: 'male', muted: false },
+  engines: { fallback: true, fallbackChain: [] },
+  echoPresets: DEFAULT_ECHO_PRESETS,
+  retention: { cacheMaxMb: 200, cacheMaxAgeHours: 168, historySize: 50 },
+};
+
+/**
+ * Settings configure_voice can change; a null engine or voice clears the setting
+ */
+export interface VoiceConfigChanges {
+  engine?: string | null;
+  voices?: Record<string, string | null>;
+  speed?: number;
+  echo?: string | false;
+  fallback?: boolean;
+  muted?: boolean;
+}
+
+/**
+ * Invalid config file, with every problem found
+ */
+export class ConfigValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'ConfigValidationError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Config file location: --config <path> (or --config=<path>), TTS_CONFIG_PATH, or config.json in the XDG config directory
+ * A relative --config resolves against the working directory the server was started in; a relative
+ * TTS_CONFIG_PATH against the XDG config directory, since the MCP client's working directory is arbitrary
+ */
+export function getConfigPath(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): { path: string; explicit: boolean } {
+  const expand = (value: string) => value.replace(/^~(?=$|[\\/])/, os.homedir());
+  const configDir = path.join(env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'mcp-nexus-voice');
+
+  const flag = argv.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+  if (flag !== -1) {
+    const value = argv[flag].startsWith('--config=') ? argv[flag].slice('--config='.length) : argv[flag + 1];
+    if (value) return { path: path.resolve(expand(value)), explicit: true };
+  }
+  if (env.TTS_CONFIG_PATH) {
+    return { path: path.resolve(configDir, expand(env.TTS_CONFIG_PATH)), explicit: false };
+  }
+  return { path: path.join(configDir, 'config.json'), explicit: false };
+}
+
+/**
+ * Read the config file over the defaults; a missing file is the defaults unless it was named explicitly
+ * Throws with the file path and every problem found
+ */
+export function loadVoiceConfig(filePath: string, required: boolean = false): VoiceConfig {
+  if (!fs.existsSync(filePath)) {
+    if (required) throw new Error(`${filePath}: file not found`);
+    return DEFAULT_VOICE_CONFIG;
+  }
+
+  try {
+    return parseVoiceConfig(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      throw new Error(`${filePath}:\n  - ${error.problems.join('\n  - ')}`);
+    }
+    throw new Error(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Validate parsed file contents, collecting a path-qualified message per problem
+ */
+export function parseVoiceConfig(data: unknown): VoiceConfig {
+  const problems: string[] = [];
+  const config: VoiceConfig = {
+    defaults: { ...DEFAULT_VOICE_CONFIG.defaults },
+    engines: { ...DEFAULT_VOICE_CONFIG.engines },
+    echoPresets: { ...DEFAULT_VOICE_CONFIG.echoPresets },
+    retention: { ...DEFAULT_VOICE_CONFIG.retention },
+  };
+
+  const root = section(data, '(root)', ['$schema', 'defaults', 'engines', 'echoPresets', 'retention'], problems);
+
+  const defaults = section(root.defaults, 'defaults', ['engine', 'voices', 'openaiVoice', 'openaiModel', 'speed', 'echo', 'preferGender', 'muted'], problems);
+  for (const field of ['engine', 'openaiVoice', 'openaiModel'] as const) {
+    if (defaults[field] === undefined) continue;
+    if (typeof defaults[field] === 'string' && defaults[field]) {
+      config.defaults[field] = field === 'engine' ? (defaults[field] as string).toLowerCase() : defaults[field] as string;
+    } else {
+      problems.push(`defaults.${field} must be a non-empty string`);
+    }
+  }
+  if (defaults.voices !== undefined) {
+    if (isObject(defaults.voices) && Object.values(defaults.voices).every(voice => typeof voice === 'string' && voice)) {
+      config.defaults.voices = Object.fromEntries(
+        Object.entries(defaults.voices as Record<string, string>).map(([language, voice]) => [language.toLowerCase(), voice])
+      );
+    } else {
+      problems.push('defaults.voices must map language codes to voice ids, e.g. { "en": "onyx" }');
+    }
+  }
+  if (defaults.speed !== undefined) {
+    const speed = number(defaults.speed, 'defaults.speed', 0.25, 4, problems);
+    if (speed !== undefined) config.defaults.speed = speed;
+  }
+  if (defaults.preferGender !== undefined) {
+    if (GENDER_PREFERENCES.includes(defaults.preferGender as GenderPreference)) {
+      config.defaults.preferGender = defaults.preferGender as GenderPreference;
+    } else {
+      problems.push(`defaults.preferGender must be one of: ${GENDER_PREFERENCES.join(', ')}`);
+    }
+  }
+  if (defaults.muted !== undefined) {
+    if (typeof defaults.muted === 'boolean') {
+      config.defaults.muted = defaults.muted;
+    } else {
+      problems.push('defaults.muted must be true or false');
+    }
+  }
+
+  const engines = section(root.engines, 'engines', ['fallback', 'fallbackChain'], problems);
+  if (engines.fallback !== undefined) {
+    if (typeof engines.fallback === 'boolean') {
+      config.engines.fallback = engines.fallback;
+    } else {
+      problems.push('engines.fallback must be true or false');
+    }
+  }
+  if (engines.fallbackChain !== undefined) {
+    if (Array.isArray(engines.fallbackChain) && engines.fallbackChain.every(name => typeof name === 'string' && name)) {
+      config.engines.fallbackChain = (engines.fallbackChain as string[]).map(name => name.trim().toLowerCase());
+    } else {
+      problems.push('engines.fallbackChain must be a list of engine names, e.g. ["openai", "piper", "platform"]');
+    }
+  }
+
+  const presets = section(root.echoPresets, 'echoPresets', null, problems);
+  for (const [name, preset] of Object.entries(presets)) {
+    const key = `echoPresets.${name}`;
+    const fields = section(preset, key, ['delay', 'volume', 'repeats'], problems);
+    // Partial presets take the remaining values from the built-in preset of that name, else the signature
+    const resolved: EchoPreset = { ...(DEFAULT_ECHO_PRESETS[name] || DEFAULT_ECHO_PRESETS.signature) };
+    if (fields.delay !== undefined) {
+      const delay = number(fields.delay, `${key}.delay`, 1, 2000, problems);
+      if (delay !== undefined) resolved.delay = delay;
+    }
+    if (fields.repeats !== undefined) {
+      const repeats = number(fields.repeats, `${key}.repeats`, 1, 10, problems);
+      if (repeats !== undefined) resolved.repeats = Math.round(repeats);
+    }
+    if (fields.volume !== undefined) {
+      const volumes = Array.isArray(fields.volume) ? fields.volume : [fields.volume];
+      if (volumes.length > 0 && volumes.every(volume => typeof volume === 'number' && volume >= 0 && volume <= 1)) {
+        resolved.volume = fields.volume as number | number[];
+      } else {
+        problems.push(`${key}.volume must be a number from 0 to 1, or a list of them`);
+      }
+    }
+    config.echoPresets[name] = resolved;
+  }
+
+  // Checked after the presets so a file preset can be the default
+  if (defaults.echo !== undefined) {
+    if (defaults.echo === false) {
+      config.defaults.echo = false;
+    } else if (typeof defaults.echo === 'string' && config.echoPresets[defaults.echo]) {
+      config.defaults.echo = defaults.echo;
+    } else {
+      problems.push(`defaults.echo must be false or an echo preset (${Object.keys(config.echoPresets).join(', ')})`);
+    }
+  }
+
+  const retention = section(root.retention, 'retention', ['cacheMaxMb', 'cacheMaxAgeHours', 'historySize'], problems);
+  const limits = { cacheMaxMb: [0, 100000], cacheMaxAgeHours: [0, 87600], historySize: [1, 10000] } as const;
+  for (const [field, [min, max]] of Object.entries(limits) as Array<[keyof VoiceConfig['retention'], readonly [number, number]]>) {
+    if (retention[field] === undefined) continue;
+    const value = number(retention[field], `retention.${field}`, min, max, problems);
+    if (value !== undefined) config.retention[field] = field === 'historySize' ? Math.round(value) : value;
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigValidationError(problems);
+  }
+  return config;
+}
+
+// Environment variables that override config file values
+export const CONFIG_ENV_OVERRIDES = [
+  'DEFAULT_TTS_VOICE', 'DEFAULT_TTS_MODEL', 'DEFAULT_TTS_SPEED', 'TTS_FALLBACK_CHAIN',
+  'TTS_CACHE_MAX_MB', 'TTS_CACHE_MAX_AGE_HOURS', 'CLEANUP_INTERVAL_HOURS',
+];
+
+/**
+ * Environment variables win over the file, as they did before the file existed
+ * Unparseable values are ignored
+ */
+export function applyEnvOverrides(config: VoiceConfig, env: NodeJS.ProcessEnv = process.env): VoiceConfig {
+  const number = (value: string | undefined, min: number, max: number) => {
+    const parsed = parseFloat(value || '');
+    return isNaN(parsed) || parsed < min || parsed > max ? undefined : parsed;
+  };
+
+  const defaults = { ...config.defaults };
+  if (env.DEFAULT_TTS_VOICE) defaults.openaiVoice = env.DEFAULT_TTS_VOICE;
+  if (env.DEFAULT_TTS_MODEL) defaults.openaiModel = env.DEFAULT_TTS_MODEL;
+  defaults.speed = number(env.DEFAULT_TTS_SPEED, 0.25, 4) ?? defaults.speed;
+
+  const engines = { ...config.engines };
+  if (env.TTS_FALLBACK_CHAIN) {
+    engines.fallbackChain = env.TTS_FALLBACK_CHAIN.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  }
+
+  const retention = { ...config.retention };
+  retention.cacheMaxMb = number(env.TTS_CACHE_MAX_MB, 0, Infinity) ?? retention.cacheMaxMb;
+  // CLEANUP_INTERVAL_HOURS is kept as the legacy age limit
+  retention.cacheMaxAgeHours = number(env.TTS_CACHE_MAX_AGE_HOURS || env.CLEANUP_INTERVAL_HOURS, 0, Infinity) ?? retention.cacheMaxAgeHours;
+
+  return { ...config, defaults, engines, retention };
+}
+
+/**
+ * Session changes over a config; voices are merged per language
+ */
+export function applyConfigChanges(config: VoiceConfig, changes: VoiceConfigChanges): VoiceConfig {
+  const defaults = { ...config.defaults, voices: { ...config.defaults.voices } };
+  if (changes.engine !== undefined) defaults.engine = changes.engine ?? undefined;
+  for (const [language, voice] of Object.entries(changes.voices || {})) {
+    if (voice === null) {
+      delete defaults.voices[language];
+    } else {
+      defaults.voices[language] = voice;
+    }
+  }
+  if (changes.speed !== undefined) defaults.speed = changes.speed;
+  if (changes.echo !== undefined) defaults.echo = changes.echo;
+  if (changes.muted !== undefined) defaults.muted = changes.muted;
+
+  const engines = changes.fallback === undefined ? config.engines : { ...config.engines, fallback: changes.fallback };
+  return { ...config, defaults, engines };
+}
+
+/**
+ * Shared config state: loaded on first use, replaced on reload
+ */
+interface ConfigState {
+  path: string;
+  explicit: boolean;
+  file: VoiceConfig;
+  error: string | null;
+}
+
+let state: ConfigState | null = null;
+let sessionChanges: VoiceConfigChanges = {};
+const listeners: Array<(config: VoiceConfig) => void> = [];
+
+function getState(): ConfigState {
+  if (!state) {
+    const { path: filePath, explicit } = getConfigPath();
+    state = { path: filePath, explicit, file: DEFAULT_VOICE_CONFIG, error: null };
+    try {
+      state.file = loadVoiceConfig(filePath, explicit);
+    } catch (error) {
+      // Reported at startup; the defaults keep the module usable until then
+      state.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return state;
+}
+
+/**
+ * Effective config: file over defaults, environment over file, session changes over everything
+ */
+export function getVoiceConfig(): VoiceConfig {
+  return applyConfigChanges(applyEnvOverrides(getState().file), sessionChanges);
+}
+
+/**
+ * What configure_voice changed in this session
+ */
+export function getSessionChanges(): VoiceConfigChanges {
+  return sessionChanges;
+}
+
+/**
+ * Apply changes for the rest of the session, optionally writing them to the config file too
+ * Listeners run before the file is written, so a failed write still leaves the session changed
+ */
+export function updateVoiceConfig(changes: VoiceConfigChanges, persist: boolean = false): VoiceConfig {
+  sessionChanges = {
+    ...sessionChanges,
+    ...changes,
+    voices: { ...sessionChanges.voices, ...changes.voices },
+  };
+
+  const config = getVoiceConfig();
+  for (const listener of listeners) {
+    listener(config);
+  }
+
+  if (persist) {
+    saveConfigChanges(getState().path, changes);
+  }
+  return config;
+}
+
+/**
+ * Write changes into the config file, keeping everything else in it
+ * Refuses to write a file that would not load
+ */
+export function saveConfigChanges(filePath: string, changes: VoiceConfigChanges): void {
+  const data: unknown = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : {};
+  if (!isObject(data)) {
+    throw new Error(`${filePath}: the file must contain a JSON object`);
+  }
+
+  const defaults = isObject(data.defaults) ? data.defaults : {};
+  if (changes.engine !== undefined) {
+    if (changes.engine === null) delete defaults.engine; else defaults.engine = changes.engine;
+  }
+  if (changes.voices !== undefined) {
+    const voices: Record<string, unknown> = { ...(isObject(defaults.voices) ? defaults.voices : {}) };
+    for (const [language, voice] of Object.entries(changes.voices)) {
+      if (voice === null) delete voices[language]; else voices[language] = voice;
+    }
+    if (Object.keys(voices).length > 0) defaults.voices = voices; else delete defaults.voices;
+  }
+  if (changes.speed !== undefined) defaults.speed = changes.speed;
+  if (changes.echo !== undefined) defaults.echo = changes.echo;
+  if (changes.muted !== undefined) defaults.muted = changes.muted;
+  if (Object.keys(defaults).length > 0) data.defaults = defaults;
+
+  if (changes.fallback !== undefined) {
+    data.engines = { ...(isObject(data.engines) ? data.engines : {}), fallback: changes.fallback };
+  }
+
+  try {
+    parseVoiceConfig(data);
+  } catch (error) {
+    const message = error instanceof ConfigValidationError ? error.problems.join('; ') : String(error);
+    throw new Error(`${filePath}: not saved, the result would be invalid: ${message}`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+export function getVoiceConfigPath(): string {
+  return getState().path;
+}
+
+/**
+ * Why the config file could not be used at startup, or null
+ */
+export function getVoiceConfigError(): string | null {
+  return getState().error;
+}
+
+/**
+ * Called with the new effective config after every successful reload
+ */
+export function onVoiceConfigChange(listener: (config: VoiceConfig) => void): void {
+  listeners.push(listener);
+}
+
+/**
+ * Re-read the file; an invalid file keeps the previous config and returns why
+ */
+export function reloadVoiceConfig(): string | null {
+  const current = getState();
+  try {
+    current.file = loadVoiceConfig(current.path, current.explicit);
+    current.error = null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const config = getVoiceConfig();
+  for (const listener of listeners) {
+    listener(config);
+  }
+  return null;
+}
+
+/**
+ * Reload whenever the file changes, is created or is removed
+ * Polls, so editors that replace the file on save are picked up too
+ */
+export function watchVoiceConfig(onReload: (error: string | null) => void, intervalMs: number = 1000): void {
+  fs.watchFile(getState().path, { persistent: false, interval: intervalMs }, (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+    onReload(reloadVoiceConfig());
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * An optional object section; unknown keys are reported (null allows any key)
+ */
+function section(value: unknown, name: string, keys: string[] | null, problems: string[]): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    problems.push(`${name} must be an object`);
+    return {};
+  }
+  if (keys) {
+    for (const key of Object.keys(value).filter(key => !keys.includes(key))) {
+      const prefix = name === '(root)' ? '' : `${name}.`;
+      problems.push(`unknown setting ${prefix}${key} (expected one of: ${keys.filter(known => known !== '$schema').join(', ')})`);
+    }
+  }
+  return value;
+}
+
+function number(value: unknown, name: string, min: number, max: number, problems: string[]): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    problems.push(`${name} must be a number from ${min} to ${max}`);
+    return undefined;
+  }
+  return value;
+}
@@ -0,0 +1,126 @@
+/**
+ * Voice Emotions - Map an `emotion` onto each engine's expressive controls
+ * Defaults follow EMOTIONAL_VOICE_GUIDE.md (MacinTalk novelty voices on macOS);
+ * every engine's entry can be replaced from a JSON file
+ *
+ * {
+ *   "whisper": { "openai": { "voice": "shimmer", "speed": 0.8 }, "espeak": { "variant": "whisper", "speed": 130 } }
+ * }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+export const EMOTIONS = ['excited', 'calm', 'warning', 'whisper', 'celebratory', 'sad'] as const;
+export type Emotion = typeof EMOTIONS[number];
+
+export interface EmotionStyle {
+  macos?: { voice?: string; rate?: number };                     // Novelty voice (English text only), words per minute
+  espeak?: { pitch?: number; speed?: number; variant?: string };  // -p 0-99, -s words per minute, -v language+variant
+  sapi?: { rate?: number; volume?: number };                     // Rate -10 to 10, Volume 0-100
+  openai?: { voice?: string; speed?: number };                   // Voice when the endpoint offers it, speed 0.25-4.0
+  piper?: { speed?: number };                                    // Rendered as length scale 1/speed
+}
+
+const ENGINE_KEYS: Array<keyof EmotionStyle> = ['macos', 'espeak', 'sapi', 'openai', 'piper'];
+
+export const DEFAULT_EMOTION_STYLES: Record<Emotion, EmotionStyle> = {
+  // Superstar: "youthful enthusiasm"
+  excited: {
+    macos: { voice: 'Superstar', rate: 210 },
+    espeak: { pitch: 70, speed: 190, variant: 'f2' },
+    sapi: { rate: 2 },
+    openai: { voice: 'nova', speed: 1.15 },
+    piper: { speed: 1.15 },
+  },
+  calm: {
+    macos: { rate: 150 },
+    espeak: { pitch: 40, speed: 140 },
+    sapi: { rate: -2 },
+    openai: { voice: 'shimmer', speed: 0.9 },
+    piper: { speed: 0.9 },
+  },
+  // Bells: "alerts, notifications"
+  warning: {
+    macos: { voice: 'Bells', rate: 170 },
+    espeak: { pitch: 35, speed: 160, variant: 'm3' },
+    sapi: { rate: 0, volume: 100 },
+    openai: { voice: 'onyx', speed: 1.0 },
+    piper: { speed: 1.0 },
+  },
+  // Whisper: "private information, confidential data"
+  whisper: {
+    macos: { voice: 'Whisper', rate: 150 },
+    espeak: { speed: 140, variant: 'whisper' },
+    sapi: { rate: -1, volume: 40 },
+    openai: { voice: 'shimmer', speed: 0.85 },
+    piper: { speed: 0.9 },
+  },
+  // Good News: "musical announcements"
+  celebratory: {
+    macos: { voice: 'Good News' },
+    espeak: { pitch: 80, speed: 180, variant: 'f4' },
+    sapi: { rate: 1 },
+    openai: { voice: 'nova', speed: 1.1 },
+    piper: { speed: 1.1 },
+  },
+  // Bad News: sung to the Funeral March
+  sad: {
+    macos: { voice: 'Bad News' },
+    espeak: { pitch: 25, speed: 120 },
+    sapi: { rate: -3, volume: 70 },
+    openai: { voice: 'onyx', speed: 0.85 },
+    piper: { speed: 0.85 },
+  },
+};
+
+/**
+ * Emotion table location: TTS_EMOTIONS_PATH, or emotions.json in the XDG config directory
+ */
+export function getEmotionsPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.TTS_EMOTIONS_PATH) {
+    return env.TTS_EMOTIONS_PATH.replace(/^~(?=$|[\\/])/, os.homedir());
+  }
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'mcp-nexus-voice', 'emotions.json');
+}
+
+/**
+ * Default styles with the file's engine entries replacing the defaults they name
+ * An unreadable or invalid file leaves the defaults and reports why
+ */
+export function loadEmotionStyles(filePath: string = getEmotionsPath()): { styles: Record<Emotion, EmotionStyle>; error: string | null } {
+  const styles = { ...DEFAULT_EMOTION_STYLES };
+  if (!fs.existsSync(filePath)) {
+    return { styles, error: null };
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, Record<string, unknown>>;
+    for (const [emotion, engines] of Object.entries(data)) {
+      if (!isEmotion(emotion)) {
+        throw new Error(`unknown emotion "${emotion}" (expected one of: ${EMOTIONS.join(', ')})`);
+      }
+      if (typeof engines !== 'object' || engines === null) {
+        throw new Error(`"${emotion}" must map engines to settings`);
+      }
+      for (const [engine, settings] of Object.entries(engines)) {
+        if (!ENGINE_KEYS.includes(engine as keyof EmotionStyle)) {
+          throw new Error(`"${emotion}": unknown engine "${engine}" (expected one of: ${ENGINE_KEYS.join(', ')})`);
+        }
+        if (typeof settings !== 'object' || settings === null) {
+          throw new Error(`"${emotion}.${engine}" must be an object`);
+        }
+      }
+      styles[emotion] = { ...styles[emotion], ...engines as EmotionStyle };
+    }
+    return { styles, error: null };
+  } catch (error) {
+    return { styles: { ...DEFAULT_EMOTION_STYLES }, error: `${filePath}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+export function isEmotion(value: unknown): value is Emotion {
+  return typeof value === 'string' && (EMOTIONS as readonly string[]).includes(value);
+}
@@ -1,292 +1,1298 @@
 /**
  * Voice Engine Selector - Hybrid Architecture
- * Automatically selects between Platform Voice Engine and OpenAI Voice Engine
- * based on configuration and availability
+ * Selects among registered voice engines (platform, OpenAI, ...) by name or
+ * priority, with graceful fallback to the next available engine
  */
 
-import { VoiceIntelligence } from './voice-intelligence.js';
-import { OpenAIVoiceEngine, OpenAIVoiceOptions, OpenAIVoiceResponse, OPENAI_VOICES, EchoOptions as OpenAIEchoOptions, CLAUDE_SIGNATURE_ECHO } from './openai-voice-engine.js';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { OpenAIVoiceEngine, resolveEchoSettings, loadOpenAIEndpoints } from './openai-voice-engine.js';
+import { PlatformVoiceEngine } from './platform-voice-engine.js';
+import { PiperVoiceEngine } from './piper-voice-engine.js';
+import { VoiceEngine, HybridVoiceOptions, EchoOptions, SynthesizedAudio, PROSODY_RANGES } from './voice-engine.js';
+import { VoiceEngineRegistry } from './engine-registry.js';
+import { VoiceInfo } from './voice-intelligence.js';
+import { FallbackChain, FallbackStep, describeFallbackSteps } from './fallback-chain.js';
+import { LanguageDetection, detectLanguage } from './language-detector.js';
+import { TextSegment, segmentText, stripLanguageMarkup, removeMarkedSegments } from './text-segmenter.js';
+import { SsmlNode, isSsml, parseSsml, chunkSsml, ssmlToPlainText, toSsmlMarkup, getProsodyGain } from './ssml.js';
+import { NormalizeOptions, loadNormalizeOptions, normalizeMarkdown, expandForSpeech } from './text-normalizer.js';
+import { PronunciationLexicon } from './pronunciation-lexicon.js';
+import { VoicePersona, loadPersonas, applyPersona } from './voice-personas.js';
+import { EMOTIONS, Emotion, EmotionStyle, loadEmotionStyles } from './voice-emotions.js';
+import { VoiceConfig, getVoiceConfig, onVoiceConfigChange } from './voice-config.js';
+import { TextChunkOptions, loadChunkOptions, splitIntoChunks, runWithConcurrency } from './text-chunker.js';
+import { findStreamPlayer, playAudioFile, playSequence, startPlayback } from './audio-playback.js';
+import { SpeechQueue, PreparedUtterance, QUEUE_MODES, SpeechCancelledError } from './speech-queue.js';
+import { SpeechJob, SpeechJobTracker } from './speech-jobs.js';
+import { EchoSettings, OPENAI_PCM_SAMPLE_RATE, PcmAudio, applyEcho, applyGain, concatPcm, convertPcm, createSilence, createStreamingEcho, decodeWav, encodePcm16, encodeWav, trimSilence } from './audio-mixer.js';
+import { SynthesisCache, createSynthesisCache, holdCacheEviction } from './synthesis-cache.js';
+import { ExportFormat, AudioExportResult, resolveExportFormat, prepareExportPath, bakeEchoIntoWav, describeExportedFile } from './audio-export.js';
 
-export interface EchoOptions {
-  delay?: number;     // ms delay (default: CLAUDE_SIGNATURE_ECHO.delay)
-  volume?: number | number[];    // echo volume 0-1 (default: CLAUDE_SIGNATURE_ECHO.volume) - można podać tablicę dla każdego echa
-  repeats?: number;   // liczba powtórzeń (default: CLAUDE_SIGNATURE_ECHO.repeats)
-}
+export { HybridVoiceOptions, EchoOptions };
 
-export interface HybridVoiceOptions {
-  // Traditional system options
-  language?: string;
-  
-  // Echo effect options
-  echo?: boolean | EchoOptions;
-  
-  // OpenAI-specific options
-  useOpenAI?: boolean;
-  openaiVoice?: keyof typeof OPENAI_VOICES;
-  openaiModel?: 'tts-1' | 'tts-1-hd';
-  openaiFormat?: 'mp3' | 'opus' | 'aac' | 'flac';
-  openaiSpeed?: number;
-}
+// Average speaking pace at speed 1, for duration estimates
+const ESTIMATED_WORDS_PER_MINUTE = 160;
 
 export interface VoiceEngineResponse {
-  engine: 'platform' | 'openai';
+  engine: string;
   success: boolean;
   voiceInfo: string;
   error?: string;
-  openaiDetails?: OpenAIVoiceResponse;
+  fallbackReason?: string;
+  fallbackSteps?: FallbackStep[];
+  cacheHit?: boolean;
+  format?: string;
+  filePath?: string;
   duration?: number;
+  chunks?: number;
+  streamed?: boolean;
+}
+
+export interface VoiceCatalogEntry {
+  engine: string;
+  displayName: string;
+  available: boolean;
+  voices: VoiceInfo[];
+}
+
+export interface DefaultVoice {
+  language: string;
+  engine: string;
+  voiceId: string | null; // null = the system default voice
+  voiceInfo: string;
+}
+
+/**
+ * The engine decision for one utterance, made once and used both to speak and to report
+ */
+export interface SpeechPlan {
+  engine: string;              // Engine the job starts with; fallback may still move it on
+  engineDisplayName: string;
+  voiceId: string | null;      // null = the system default voice
+  voiceInfo: string;
+  language?: string;
+  model?: string;
+  speed: number;               // Multiplier, 1 = normal
+  echo: EchoSettings | null;
+  estimatedDurationMs: number;
+  cache: 'hit' | 'miss' | null;
+  segments: Array<string | null>; // Language of each segment; more than one for mixed-language text
+  chunks: number;                 // Chunks a single segment is synthesized in
+}
+
+/**
+ * How an utterance is split for synthesis, worked out once when it is planned
+ */
+interface UtteranceLayout {
+  segments: TextSegment[];
+  text: string;                // Spoken text of a single segment, expanded for its language
+  options: HybridVoiceOptions; // With the single segment's language
+  chunks: string[];
+}
+
+export interface SpeechRequest {
+  job: SpeechJob;
+  plan: SpeechPlan;
+  finished: Promise<SpeechJob>; // Always resolves, with the job in its final state
+}
+
+export interface LanguageResolution extends LanguageDetection {
+  applied: boolean; // Confident enough to pick the voice
+}
+
+export interface EngineStatus {
+  engines: Array<{ name: string; displayName: string; available: boolean; priority: number }>;
+  preferred: string;
+  circuits: Array<{ engine: string; consecutiveFailures: number; openForMs: number }>;
 }
 
 export class VoiceEngineSelector {
-  private voiceIntelligence: VoiceIntelligence;
-  private openaiEngine: OpenAIVoiceEngine;
-  private preferOpenAI: boolean = false;
+  private registry: VoiceEngineRegistry = new VoiceEngineRegistry();
   private fallbackEnabled: boolean = true;
+  private fallbackChain: FallbackChain = new FallbackChain();
+  private segmentCache: SynthesisCache = createSynthesisCache(path.join(os.tmpdir(), 'mcp-nexus-voice-segments'));
+  private speechQueue: SpeechQueue<VoiceEngineResponse> = new SpeechQueue();
+  private jobTracker: SpeechJobTracker = new SpeechJobTracker();
+  private normalizeOptions: NormalizeOptions = loadNormalizeOptions();
+  private lexicon: PronunciationLexicon = new PronunciationLexicon();
+  private personas: { personas: Record<string, VoicePersona>; error: string | null } = loadPersonas();
+  private emotions: { styles: Record<Emotion, EmotionStyle>; error: string | null } = loadEmotionStyles();
 
   constructor() {
-    // Initialize traditional platform engine
-    this.voiceIntelligence = new VoiceIntelligence();
-    
-    // Initialize OpenAI engine (will be unavailable if no API key)
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    this.openaiEngine = new OpenAIVoiceEngine(openaiApiKey);
+    // Platform engine is always available as the reliability baseline
+    const platformEngine = new PlatformVoiceEngine(undefined, this.lexicon);
+    this.registry.register(platformEngine);
+
+    // Piper offline neural voices (unavailable without binary and models), espeak for uncovered languages
+    this.registry.register(new PiperVoiceEngine(platformEngine, this.lexicon));
     
-    // Set preference based on OpenAI availability
-    this.preferOpenAI = this.openaiEngine.isEngineAvailable();
+    // OpenAI and OpenAI-compatible endpoints (unavailable without API key or base URL)
+    for (const endpoint of loadOpenAIEndpoints()) {
+      this.registry.register(new OpenAIVoiceEngine(endpoint, this.lexicon));
+    }
+
+    this.applyConfig(getVoiceConfig());
+    onVoiceConfigChange(config => this.applyConfig(config));
+  }
+
+  /**
+   * Take over the config file's fallback and history settings; the rest is read per request
+   */
+  private applyConfig(config: VoiceConfig): void {
+    this.setFallbackEnabled(config.engines.fallback);
+    this.fallbackChain.setOrder(config.engines.fallbackChain);
+    this.jobTracker.setMaxJobs(config.retention.historySize);
+  }
+
+  /**
+   * Register an additional voice engine
+   */
+  registerEngine(engine: VoiceEngine): void {
+    this.registry.register(engine);
   }
 
   /**
-   * Initialize voice intelligence system
+   * Initialize every registered engine
    */
   async initialize(): Promise<void> {
-    await this.voiceIntelligence.initialize();
-    
-    // Cleanup old OpenAI files on startup
-    if (this.openaiEngine.isEngineAvailable()) {
-      this.openaiEngine.cleanupOldFiles(24);
+    await Promise.all(this.registry.list().map(engine => engine.initialize()));
+  }
+
+  /**
+   * Re-run every engine's voice discovery; true when the voice catalogue changed
+   */
+  async rediscoverVoices(): Promise<boolean> {
+    const before = JSON.stringify(this.getVoiceCatalog());
+    await this.initialize();
+    return JSON.stringify(this.getVoiceCatalog()) !== before;
+  }
+
+  /**
+   * Voices of every registered engine, unavailable engines included
+   */
+  getVoiceCatalog(): VoiceCatalogEntry[] {
+    return this.registry.list().map(engine => ({
+      engine: engine.name,
+      displayName: engine.displayName,
+      available: engine.isEngineAvailable(),
+      voices: engine.listVoices(),
+    }));
+  }
+
+  /**
+   * The voice `say` picks for each supported language when no engine or voice is given
+   */
+  getDefaultVoices(): DefaultVoice[] {
+    return this.getSupportedLanguages().sort().map(language => {
+      const engine = this.selectEngine({ language });
+      return {
+        language,
+        engine: engine.name,
+        voiceId: engine.resolveVoiceId({ language }),
+        voiceInfo: engine.describeVoice({ language }),
+      };
+    });
+  }
+
+  /**
+   * Emotions whose mapping selects this voice on this engine
+   * Only macOS voices and OpenAI-compatible voices are chosen by emotions
+   */
+  getVoiceEmotions(engineName: string, voiceId: string): Emotion[] {
+    const engine = this.registry.get(engineName);
+    const key = engine instanceof OpenAIVoiceEngine ? 'openai'
+      : engineName === 'platform' && os.platform() === 'darwin' ? 'macos'
+      : null;
+    if (!key) return [];
+
+    // macOS voice ids may carry a quality suffix, e.g. "Zoe (Premium)"
+    const baseName = voiceId.replace(/\s*\([^)]*\)$/, '');
+    return EMOTIONS.filter(emotion => {
+      const voice = this.emotions.styles[emotion][key]?.voice;
+      return voice === voiceId || voice === baseName;
+    });
+  }
+
+  /**
+   * Pronunciation lexicon shared by every engine
+   */
+  getLexicon(): PronunciationLexicon {
+    return this.lexicon;
+  }
+
+  /**
+   * Built-in and configured personas, and why the persona file could not be read (if so)
+   */
+  getPersonas(): { personas: VoicePersona[]; error: string | null } {
+    return { personas: Object.values(this.personas.personas), error: this.personas.error };
+  }
+
+  getPersona(name: string): VoicePersona | null {
+    return this.personas.personas[name] || null;
+  }
+
+  /**
+   * Fill in a persona's engine, voice, speed and echo where the options leave them unset
+   */
+  applyPersona(name: string, options: HybridVoiceOptions): HybridVoiceOptions {
+    const persona = this.getPersona(name);
+    if (!persona) {
+      throw new Error(`Unknown persona "${name}"`);
     }
+    return applyPersona(persona, options);
   }
 
   /**
-   * Check if OpenAI engine is available
+   * Fill in the config file's default voice for the resolved language when no voice was chosen
+   * Runs after the persona, whose voices are more specific
    */
-  isOpenAIAvailable(): boolean {
-    return this.openaiEngine.isEngineAvailable();
+  applyDefaults(options: HybridVoiceOptions): HybridVoiceOptions {
+    if (options.voice !== undefined || !options.language) return options;
+
+    const language = options.language.toLowerCase();
+    const voices = getVoiceConfig().defaults.voices;
+    const voice = voices[language] || voices[language.split(/[-_]/)[0]];
+    return voice ? { ...options, voice } : options;
   }
 
   /**
-   * Get supported languages (combines both engines)
+   * Emotion mapping table, and why the emotion file could not be read (if so)
+   */
+  getEmotionStyles(): { styles: Record<Emotion, EmotionStyle>; error: string | null } {
+    return this.emotions;
+  }
+
+  /**
+   * Attach the configured per-engine style for the options' emotion
+   */
+  applyEmotion(options: HybridVoiceOptions): HybridVoiceOptions {
+    if (!options.emotion) return options;
+    return { ...options, emotionStyle: this.emotions.styles[options.emotion] };
+  }
+
+  /**
+   * Get a registered engine by name
+   */
+  getEngine(name: string): VoiceEngine | null {
+    return this.registry.get(name);
+  }
+
+  /**
+   * Get supported languages (union across available engines)
    */
   getSupportedLanguages(): string[] {
-    const platformLanguages = this.voiceIntelligence.getSupportedLanguages();
-    
-    if (this.isOpenAIAvailable()) {
-      // OpenAI voices as pseudo-languages for selection
-      const openaiVoices = this.openaiEngine.getAvailableVoices();
-      return [...platformLanguages, ...openaiVoices];
+    const languages = new Set<string>();
+    for (const engine of this.registry.available()) {
+      engine.getSupportedLanguages().forEach(language => languages.add(language));
     }
-    
-    return platformLanguages;
+    return Array.from(languages);
+  }
+
+  /**
+   * Detect the language of text without an explicit `language`, among languages the engines offer
+   * A detection below TTS_LANGUAGE_DETECTION_MIN_CONFIDENCE is reported but leaves the default voice
+   */
+  resolveLanguage(text: string, options: HybridVoiceOptions): { options: HybridVoiceOptions; detection: LanguageResolution | null } {
+    if (options.language) {
+      return { options, detection: null };
+    }
+
+    // Marked-up segments carry their own language and must not sway the utterance language
+    const plainText = isSsml(text) ? ssmlToPlainText(parseSsml(text).filter(node => node.type === 'break' || !node.language)) : text;
+    const detection = detectLanguage(removeMarkedSegments(plainText), this.getSupportedLanguages());
+    if (!detection) {
+      return { options, detection: null };
+    }
+
+    const applied = detection.confidence >= this.getMinDetectionConfidence();
+    return {
+      options: applied ? { ...options, language: detection.language } : options,
+      detection: { ...detection, applied },
+    };
+  }
+
+  /**
+   * Turn agent markdown into speakable prose: code blocks summarized or skipped, markdown syntax removed,
+   * URLs and paths shortened, emoji dropped or named; SSML is left to its author
+   */
+  normalizeText(text: string, options: HybridVoiceOptions = {}): string {
+    if (isSsml(text)) return text;
+    return normalizeMarkdown(text, options.language, this.getNormalizeOptions(options));
+  }
+
+  /**
+   * Expand abbreviations, units and number formats for the voice that reads this text
+   */
+  private expandText(text: string, language: string | undefined, options: HybridVoiceOptions): string {
+    return expandForSpeech(text, language, this.getNormalizeOptions(options));
+  }
+
+  private getNormalizeOptions(options: HybridVoiceOptions): NormalizeOptions {
+    return options.normalize === undefined ? this.normalizeOptions : { ...this.normalizeOptions, enabled: options.normalize };
+  }
+
+  /**
+   * Split text into language segments for the engine that will speak it
+   * Language-agnostic engines (OpenAI) read every language with one voice, so they get a single segment
+   */
+  planSegments(text: string, options: HybridVoiceOptions = {}): TextSegment[] {
+    // SSML switches language with <lang> instead
+    if (isSsml(text)) {
+      return [{ text, language: options.language, source: 'markup' }];
+    }
+    if (this.selectEngine(options).getSupportedLanguages().length === 0) {
+      return [{ text: stripLanguageMarkup(text), language: options.language, source: 'detected' }];
+    }
+
+    return segmentText(text, this.getSupportedLanguages(), {
+      auto: options.mixedLanguage !== false,
+      minConfidence: this.getMinDetectionConfidence(),
+      defaultLanguage: options.language,
+    });
+  }
+
+  /**
+   * Split long text for engines that render whole files before playback
+   * Engines that speak natively (platform) stream on their own and get the text in one piece
+   */
+  planChunks(text: string, options: HybridVoiceOptions = {}): string[] {
+    const engine = this.selectEngine(options);
+    if (engine.speak || isSsml(text)) return [text];
+
+    return splitIntoChunks(text, this.getChunkOptions(engine));
+  }
+
+  private getChunkOptions(engine: VoiceEngine): TextChunkOptions {
+    return loadChunkOptions(engine.getCapabilities().maxInputChars);
+  }
+
+  private getMinDetectionConfidence(): number {
+    return parseFloat(process.env.TTS_LANGUAGE_DETECTION_MIN_CONFIDENCE || '0.5');
   }
 
   /**
-   * Get enhanced tool schema with OpenAI options
+   * Get enhanced tool schema built from the available engines
    */
   getEnhancedToolSchema(): any {
-    const supportedLanguages = this.voiceIntelligence.getSupportedLanguages();
-    const hasLanguages = supportedLanguages.length > 0;
+    const availableEngines = this.registry.available();
+    const config = getVoiceConfig();
+    const defaultEngine = this.registry.select(config.defaults.engine);
+    const echoPresets = Object.keys(config.echoPresets);
     
     const toolSchema: any = {
       type: 'object',
       properties: {
         text: {
           type: 'string',
-          description: 'Any text you want to speak aloud - reactions, explanations, thoughts, or responses. Express yourself naturally!',
+          description: 'Any text you want to speak aloud - reactions, explanations, thoughts, or responses. Express yourself naturally! Accepts SSML: <break>, <emphasis>, <prosody rate/pitch/volume>, <say-as interpret-as="characters|digits|date"> and <lang>.',
         },
       },
       required: ['text'],
     };
 
-    // Traditional language parameter
-    if (hasLanguages) {
-      toolSchema.properties.language = {
+    // Engine choice (only meaningful with more than one engine)
+    if (availableEngines.length > 1) {
+      toolSchema.properties.engine = {
         type: 'string',
-        enum: supportedLanguages,
-        description: 'Language for platform voice selection. System automatically selects the best voice for the chosen language. 🎭 Easter egg: On macOS, you can also specify exact voice names (e.g., "Fred", "Krzysztof", "Samantha") instead of language codes.'
+        enum: availableEngines.map(engine => engine.name),
+        description: `🎛️ Voice engine to use. Default: ${defaultEngine?.name} (${config.defaults.engine ? 'configured' : 'highest priority available'}), falling back to the others on errors.`,
       };
     }
 
     // Echo effect parameter
     toolSchema.properties.echo = {
+      oneOf: [{ type: 'boolean' }, { type: 'string', enum: echoPresets }],
+      description: `🔊 Add echo effect to voice synthesis. Creates atmospheric depth with audio delay and volume decay. true uses the default preset (${config.defaults.echo || 'signature'}); a preset name picks another: ${echoPresets.join(', ')}.`,
+      default: config.defaults.echo !== false
+    };
+
+    // Speech queue parameter
+    toolSchema.properties.queue = {
+      type: 'string',
+      enum: QUEUE_MODES,
+      description: '🎬 How to schedule this utterance: enqueue (play after everything already queued), interrupt (stop current speech and drop pending ones), priority (play next, right after the current utterance).',
+      default: 'enqueue'
+    };
+
+    toolSchema.properties.wait = {
+      type: 'boolean',
+      description: '⏳ Wait until playback finishes and report the final outcome (engine used, fallback, errors) instead of returning immediately.',
+      default: false
+    };
+
+    toolSchema.properties.mixedLanguage = {
       type: 'boolean',
-      description: `🔊 Add echo effect to voice synthesis. Creates atmospheric depth with audio delay and volume decay. Default: Optimized Claude Signature Echo (${CLAUDE_SIGNATURE_ECHO.delay}ms delay, natural fade).`,
+      description: '🗣️ Speak mixed-language text with a voice per language: code spans in English, other languages detected per sentence. Mark segments explicitly with [de]Guten Morgen[/de]; markup is honoured even when this is false.',
       default: true
     };
 
-    // OpenAI-specific parameters (only if OpenAI is available)
-    if (this.isOpenAIAvailable()) {
-      toolSchema.properties.useOpenAI = {
-        type: 'boolean',
-        description: '🌩️ Use OpenAI TTS engine for premium cloud-based voice synthesis. Higher quality but requires API usage.',
-        default: true
-      };
+    toolSchema.properties.ssml = {
+      type: 'boolean',
+      description: '🏷️ Read the text as SSML. Text starting with <speak> is SSML anyway; set true for a fragment like "Done <break time=\'1s\'/> next", which is then wrapped in <speak>.',
+      default: false
+    };
 
-      toolSchema.properties.openaiVoice = {
+    const personaNames = Object.keys(this.personas.personas);
+    if (personaNames.length > 0) {
+      toolSchema.properties.persona = {
         type: 'string',
-        enum: this.openaiEngine.getAvailableVoices(),
-        description: '🎭 OpenAI voice selection: alloy (balanced), echo (male), fable (expressive), onyx (deep male), nova (warm female), shimmer (bright female)',
-        default: 'nova'
+        enum: personaNames,
+        description: '🎭 Named voice persona bundling engine, voice per language, speed and echo (see list_personas). Explicit arguments override the persona.',
       };
+    }
+
+    toolSchema.properties.emotion = {
+      type: 'string',
+      enum: [...EMOTIONS],
+      description: '🎨 Expressive style mapped to each engine: a voice and speed on OpenAI, rate and novelty voice on macOS, pitch/speed/variant on espeak, rate and volume on Windows. Explicit voice and speed arguments win.',
+    };
+
+    toolSchema.properties.rate = {
+      type: 'number',
+      minimum: PROSODY_RANGES.rate.minimum,
+      maximum: PROSODY_RANGES.rate.maximum,
+      default: PROSODY_RANGES.rate.default,
+      description: `⏩ Speaking rate multiplier for every engine (${PROSODY_RANGES.rate.minimum}x to ${PROSODY_RANGES.rate.maximum}x, clamped): say -r and espeak -s in words per minute, SAPI Rate, OpenAI speed, Piper length scale. openaiSpeed wins on OpenAI.`,
+    };
+
+    toolSchema.properties.pitch = {
+      type: 'number',
+      minimum: PROSODY_RANGES.pitch.minimum,
+      maximum: PROSODY_RANGES.pitch.maximum,
+      default: PROSODY_RANGES.pitch.default,
+      description: `🎚️ Pitch shift in semitones (${PROSODY_RANGES.pitch.minimum} to +${PROSODY_RANGES.pitch.maximum}, clamped): [[pbas]] on macOS, espeak -p. SAPI, OpenAI and Piper voices keep their own pitch.`,
+    };
 
-      toolSchema.properties.openaiModel = {
+    toolSchema.properties.volume = {
+      type: 'number',
+      minimum: PROSODY_RANGES.volume.minimum,
+      maximum: PROSODY_RANGES.volume.maximum,
+      default: PROSODY_RANGES.volume.default,
+      description: `🔉 Volume as a fraction of full volume (${PROSODY_RANGES.volume.minimum} to ${PROSODY_RANGES.volume.maximum}, clamped): [[volm]] on macOS, espeak -a, SAPI Volume. OpenAI and Piper audio plays at full volume.`,
+    };
+
+    toolSchema.properties.normalize = {
+      type: 'boolean',
+      description: `🧹 Make markdown speakable before any engine reads it: code blocks ${this.normalizeOptions.codeBlocks === 'skip' ? 'skipped' : 'summarized ("code block with 12 lines")'}, markdown syntax removed, URLs and file paths shortened, emoji ${this.normalizeOptions.emoji === 'name' ? 'named' : 'dropped'}, abbreviations, units and numbers expanded per language. Set false to speak the text verbatim.`,
+      default: this.normalizeOptions.enabled
+    };
+
+    // Engine-specific parameters (only from available engines)
+    for (const engine of availableEngines) {
+      this.mergeSchemaFragment(toolSchema.properties, engine.getSchemaFragment());
+    }
+
+    // Language choices span every available engine, not just the one contributing the property
+    const supportedLanguages = this.getSupportedLanguages();
+    if (supportedLanguages.length > 0) {
+      toolSchema.properties.language = toolSchema.properties.language || {
         type: 'string',
-        enum: this.openaiEngine.getAvailableModels(),
-        description: '⚡ OpenAI model: tts-1 (faster, standard quality) or tts-1-hd (slower, higher quality)',
-        default: 'tts-1'
+        description: 'Language for voice selection. System automatically selects the best voice for the chosen language.',
       };
+      toolSchema.properties.language.enum = supportedLanguages;
+    }
 
-      toolSchema.properties.openaiSpeed = {
-        type: 'number',
-        minimum: 0.25,
-        maximum: 4.0,
-        description: '🚀 Speech speed multiplier (0.25x to 4.0x). 1.0 is normal speed.',
-        default: 1.0
-      };
+    return toolSchema;
+  }
+
+  /**
+   * Merge an engine's properties; shared properties keep the higher-priority engine's
+   * settings and offer the union of both enums
+   */
+  private mergeSchemaFragment(properties: Record<string, any>, fragment: Record<string, any>): void {
+    for (const [key, property] of Object.entries(fragment)) {
+      const existing = properties[key];
+      if (!existing) {
+        properties[key] = { ...property };
+        continue;
+      }
+
+      if (existing.enum && property.enum) {
+        existing.enum = Array.from(new Set([...existing.enum, ...property.enum]));
+      } else if (!property.enum) {
+        // One engine accepts free-form values, so the merged property must too
+        delete existing.enum;
+      }
+      if (property.description && !existing.description.includes(property.description)) {
+        existing.description += ` | ${property.description}`;
+      }
     }
+  }
+
+  /**
+   * Get tool schema for synthesize_to_file
+   * Shares the engine options of `say`, without the playback-only ones
+   */
+  getExportToolSchema(): any {
+    const toolSchema = this.getEnhancedToolSchema();
+    delete toolSchema.properties.queue;
+    delete toolSchema.properties.wait;
+    delete toolSchema.properties.stream;
+
+    toolSchema.properties.text.description = 'Text to render into the audio file.';
+    toolSchema.properties.outputPath = {
+      type: 'string',
+      description: 'Where to write the file. Relative paths resolve against the server working directory; a missing extension is added from the format.',
+    };
+    const availableEngines = this.registry.available();
+    const formats = new Set<string>();
+    availableEngines.forEach(engine => engine.getCapabilities().exportFormats.forEach(format => formats.add(format)));
+    toolSchema.properties.format = {
+      type: 'string',
+      enum: Array.from(formats),
+      description: '📦 Audio format. ' +
+        availableEngines.map(engine => `${engine.displayName}: ${engine.getCapabilities().exportFormats.join(', ')}`).join('. ') +
+        '. Defaults to the file extension, then the engine\'s native format.',
+    };
+    const config = getVoiceConfig();
+    const echoPresets = Object.keys(config.echoPresets);
+    toolSchema.properties.echo = {
+      oneOf: [{ type: 'boolean' }, { type: 'string', enum: echoPresets }],
+      description: `🔊 Bake an echo into the file: true uses the default preset (${config.defaults.echo || 'signature'}), or name one of: ${echoPresets.join(', ')}. WAV only.`,
+      default: false
+    };
+    toolSchema.required = ['text', 'outputPath'];
 
     return toolSchema;
   }
 
   /**
    * Determine which engine to use based on options
+   * `engine` names a registered engine; `useOpenAI` is kept as a legacy switch
    */
-  private selectEngine(options: HybridVoiceOptions): 'platform' | 'openai' {
-    // Explicit OpenAI request
-    if (options.useOpenAI === true && this.isOpenAIAvailable()) {
-      return 'openai';
+  private selectEngine(options: HybridVoiceOptions): VoiceEngine {
+    let requested = options.engine;
+    if (!requested && options.useOpenAI !== undefined) {
+      requested = options.useOpenAI ? 'openai' : 'platform';
     }
-    
-    // Explicit platform request
-    if (options.useOpenAI === false) {
-      return 'platform';
-    }
-    
-    // Auto-selection: prefer OpenAI if available
-    if (this.preferOpenAI && this.isOpenAIAvailable()) {
-      return 'openai';
+    requested = requested || getVoiceConfig().defaults.engine;
+
+    const engine = this.registry.select(requested);
+    if (!engine) {
+      throw new Error('No voice engine is available');
     }
-    
-    return 'platform';
+    return engine;
+  }
+
+  /**
+   * Selected engine followed by the fallback chain, when fallback is enabled
+   */
+  private getEngineChain(options: HybridVoiceOptions): VoiceEngine[] {
+    const selected = this.selectEngine(options);
+    if (!this.fallbackEnabled) return [selected];
+
+    return this.fallbackChain.order(selected, this.registry.available());
+  }
+
+  /**
+   * Summarize retries, skipped circuits and failed engines for the result
+   */
+  private describeFallback(steps: FallbackStep[]): string | undefined {
+    return describeFallbackSteps(steps, name => this.registry.get(name)?.displayName || name);
   }
 
   /**
    * Synthesize voice with hybrid engine selection
+   * Utterances go through the speech queue as tracked jobs, so playback never overlaps;
+   * returns immediately and `finished` settles once the job reaches a final state
    */
-  async synthesizeVoice(text: string, options: HybridVoiceOptions = {}): Promise<VoiceEngineResponse> {
+  speak(text: string, requestOptions: HybridVoiceOptions = {}): SpeechRequest {
+    // Plan before creating the job, so a planning error cannot leave a job stuck in queued
+    const { plan, layout } = this.planUtterance(text, requestOptions);
+    const job = this.jobTracker.create(text);
+    // Pin the planned engine so the reported decision is the one that runs
+    const options: HybridVoiceOptions = { ...requestOptions, engine: plan.engine };
+    // Files this utterance plays must survive other utterances' cache stores until it finished
+    const releaseCache = holdCacheEviction();
+
+    const synthesize = async (): Promise<PreparedUtterance<VoiceEngineResponse>> => {
+      this.jobTracker.transition(job, 'synthesizing');
+      const prepared = await this.prepareUtterance(layout, options);
+
+      job.timings.synthesisFinishedAt = Date.now();
+      job.engine = prepared.result.engine;
+      job.voiceInfo = prepared.result.voiceInfo;
+      job.fallbackReason = prepared.result.fallbackReason;
+      job.chunks = prepared.result.chunks;
+      job.streamed = prepared.result.streamed;
+      job.audioPath = prepared.result.filePath;
+      job.format = prepared.result.format;
+      if (prepared.result.cacheHit !== undefined) {
+        job.cache = prepared.result.cacheHit ? 'hit' : 'miss';
+      }
+
+      return {
+        result: prepared.result,
+        play: () => {
+          this.jobTracker.transition(job, 'playing');
+          const playback = prepared.play();
+          // Buffered audio starts with the player; streamed audio once the first bytes arrive
+          if (playback.firstAudio) {
+            playback.firstAudio.then(at => { job.timings.firstAudioAt = at; });
+          } else {
+            job.timings.firstAudioAt = job.timings.playbackStartedAt;
+          }
+          return playback;
+        },
+      };
+    };
+
+    const finished = this.speechQueue.add(synthesize, options.queueMode)
+      .then((result) => {
+        // Chunked utterances keep synthesizing during playback, and end up as one joined clip
+        job.fallbackReason = result.fallbackReason;
+        job.audioPath = result.filePath ?? job.audioPath;
+        job.format = result.format ?? job.format;
+        if (result.cacheHit !== undefined) {
+          job.cache = result.cacheHit ? 'hit' : 'miss';
+        }
+        if (result.success) {
+          this.jobTracker.transition(job, 'done');
+        } else {
+          job.error = result.error;
+          this.jobTracker.transition(job, 'failed');
+        }
+      })
+      .catch((error: Error) => {
+        if (error instanceof SpeechCancelledError) {
+          this.jobTracker.transition(job, 'cancelled');
+        } else {
+          job.error = error.message;
+          this.jobTracker.transition(job, 'failed');
+        }
+      })
+      .then(() => {
+        releaseCache();
+        return job;
+      });
+
+    return { job, plan, finished };
+  }
+
+  /**
+   * Decide engine, voice and rendering settings for an utterance
+   */
+  planSpeech(text: string, options: HybridVoiceOptions = {}): SpeechPlan {
+    return this.planUtterance(text, options).plan;
+  }
+
+  /**
+   * Plan an utterance along with the layout it is synthesized in, so the reported segments and chunks are the ones spoken
+   */
+  private planUtterance(text: string, options: HybridVoiceOptions): { plan: SpeechPlan; layout: UtteranceLayout } {
+    const engine = this.selectEngine(options);
+    const { model, speed } = engine.resolveRendering(options);
+    const echo = engine.getCapabilities().echo ? resolveEchoSettings(options.echo) : null;
+    const layout = this.layoutUtterance(this.normalizeText(text, options), { ...options, engine: engine.name });
+
+    const plan: SpeechPlan = {
+      engine: engine.name,
+      engineDisplayName: engine.displayName,
+      voiceId: engine.resolveVoiceId(options),
+      voiceInfo: engine.describeVoice(options),
+      language: options.language,
+      model,
+      speed: Math.round(speed * 100) / 100,
+      echo,
+      estimatedDurationMs: this.estimateDuration(text, options, speed, echo),
+      cache: this.getCacheStatus(text, { ...options, engine: engine.name }),
+      segments: layout.segments.map(segment => segment.language || null),
+      chunks: layout.chunks.length,
+    };
+    return { plan, layout };
+  }
+
+  /**
+   * Split normalized text into language segments, or a single segment's expanded text into chunks
+   */
+  private layoutUtterance(text: string, options: HybridVoiceOptions): UtteranceLayout {
+    // SSML is rendered by its own chunking
+    if (isSsml(text)) {
+      return { segments: [{ text, language: options.language, source: 'markup' }], text, options, chunks: [text] };
+    }
+
+    const segments = this.planSegments(text, options);
+    if (segments.length > 1) {
+      return { segments, text, options, chunks: [] };
+    }
+
+    // A single segment may still differ from the input: markup removed, language from the tag
+    const spokenOptions = segments.length === 1 && segments[0].language ? { ...options, language: segments[0].language } : options;
+    const spokenText = this.expandText(segments.length === 1 ? segments[0].text : text, spokenOptions.language, options);
+    return { segments, text: spokenText, options: spokenOptions, chunks: this.planChunks(spokenText, spokenOptions) };
+  }
+
+  /**
+   * Rough spoken length from the word count at the planned speed, plus the echo tail
+   */
+  private estimateDuration(text: string, options: HybridVoiceOptions, speed: number, echo: EchoSettings | null): number {
+    const normalized = this.normalizeText(text, options);
+    const plainText = isSsml(normalized) ? ssmlToPlainText(parseSsml(normalized)) : stripLanguageMarkup(normalized);
+    const words = plainText.split(/\s+/).filter(Boolean).length;
+    const echoTail = echo ? echo.delay * echo.volumes.length : 0;
+    return Math.round(words / (ESTIMATED_WORDS_PER_MINUTE * speed) * 60000) + echoTail;
+  }
+
+  /**
+   * Look up a tracked speech job
+   */
+  getJob(id: string): SpeechJob | null {
+    return this.jobTracker.get(id);
+  }
+
+  /**
+   * Most recent speech jobs, newest first
+   */
+  getRecentJobs(limit?: number): SpeechJob[] {
+    return this.jobTracker.getRecent(limit);
+  }
+
+  /**
+   * Every tracked speech job, newest first
+   */
+  listJobs(): SpeechJob[] {
+    return this.jobTracker.list();
+  }
+
+  /**
+   * Stop current speech and drop everything pending
+   */
+  stopSpeaking(): void {
+    this.speechQueue.clear();
+  }
+
+  /**
+   * Stop the current utterance and move on to the next one
+   */
+  skip(): boolean {
+    return this.speechQueue.skip();
+  }
+
+  /**
+   * Pause current playback and hold back pending utterances
+   */
+  pause(): boolean {
+    return this.speechQueue.pause();
+  }
+
+  /**
+   * Resume paused playback
+   */
+  resume(): boolean {
+    return this.speechQueue.resume();
+  }
+
+  /**
+   * Get speech queue state for diagnostics
+   */
+  getQueueStatus(): { speaking: boolean; paused: boolean; pending: number } {
+    return {
+      speaking: this.speechQueue.isBusy(),
+      paused: this.speechQueue.isPaused(),
+      pending: this.speechQueue.getPendingCount(),
+    };
+  }
+
+  /**
+   * Synthesize an utterance without playing it, falling back along the engine chain
+   */
+  private async prepareUtterance(layout: UtteranceLayout, options: HybridVoiceOptions): Promise<PreparedUtterance<VoiceEngineResponse>> {
     const startTime = Date.now();
-    const selectedEngine = this.selectEngine(options);
+    const { text: spokenText, options: spokenOptions } = layout;
+    if (isSsml(spokenText)) {
+      return this.prepareSsml(parseSsml(spokenText), spokenText, options, startTime);
+    }
 
-    try {
-      if (selectedEngine === 'openai') {
-        return await this.synthesizeWithOpenAI(text, options, startTime);
-      } else {
-        return await this.synthesizeWithPlatform(text, options, startTime);
+    if (layout.segments.length > 1) {
+      return this.prepareSegmented(layout.segments, options, startTime);
+    }
+
+    if (layout.chunks.length > 1) {
+      return this.prepareChunked(layout.chunks, spokenOptions, startTime);
+    }
+
+    const { value: prepared, steps } = await this.fallbackChain.run(
+      this.getEngineChain(options),
+      engine => this.prepareWithEngine(engine, spokenText, spokenOptions, startTime)
+    );
+
+    prepared.result.fallbackSteps = steps;
+    prepared.result.fallbackReason = this.describeFallback(steps);
+    return prepared;
+  }
+
+  /**
+   * Prepare playback with one engine
+   * Streaming engines and engines that speak natively play while synthesizing, so there is nothing to render ahead
+   */
+  private async prepareWithEngine(
+    engine: VoiceEngine,
+    text: string,
+    options: HybridVoiceOptions,
+    startTime: number
+  ): Promise<PreparedUtterance<VoiceEngineResponse>> {
+    if (engine.openStream) {
+      const stream = await engine.openStream(text, options);
+      if (stream) {
+        return {
+          result: {
+            engine: engine.name,
+            success: true,
+            voiceInfo: stream.voiceInfo,
+            cacheHit: false,
+            format: stream.format,
+            filePath: stream.filePath,
+            duration: Date.now() - startTime,
+            streamed: true,
+          },
+          play: () => stream.play(),
+        };
       }
-    } catch (error) {
-      // Fallback logic: if OpenAI fails and fallback is enabled, try platform
-      if (selectedEngine === 'openai' && this.fallbackEnabled) {
-        return await this.synthesizeWithPlatform(text, options, startTime, error as Error);
+    }
+
+    if (engine.speak) {
+      return {
+        result: {
+          engine: engine.name,
+          success: true,
+          voiceInfo: engine.describeVoice(options),
+          duration: Date.now() - startTime,
+        },
+        play: () => engine.speak!(text, options),
+      };
+    }
+
+    const audio = await engine.synthesizeToBuffer(text, options);
+
+    return {
+      result: {
+        engine: engine.name,
+        success: true,
+        voiceInfo: audio.voiceInfo,
+        cacheHit: audio.cacheHit,
+        format: audio.format,
+        filePath: audio.filePath,
+        duration: Date.now() - startTime,
+      },
+      play: () => playAudioFile(audio.filePath),
+    };
+  }
+
+  /**
+   * Synthesize each language segment with its own voice and join them into one clip,
+   * so segments play back to back without player start-up gaps or edge silence
+   */
+  private async prepareSegmented(
+    segments: TextSegment[],
+    options: HybridVoiceOptions,
+    startTime: number
+  ): Promise<PreparedUtterance<VoiceEngineResponse>> {
+    const chain = this.getEngineChain(options);
+    const clips: Buffer[] = [];
+    const sources: string[] = [];
+    const voices: string[] = [];
+    const steps: FallbackStep[] = [];
+    let primaryEngine: VoiceEngine | null = null;
+    let allCached = true;
+
+    for (const segment of segments) {
+      // Echo goes over the joined clip, not each segment
+      const segmentOptions: HybridVoiceOptions = { ...options, language: segment.language, echo: false, format: 'wav' };
+      const { value: audio, engine, steps: segmentSteps } = await this.fallbackChain.run(
+        chain,
+        candidate => candidate.synthesizeToBuffer(this.expandText(segment.text, segment.language, options), segmentOptions)
+      );
+      if (audio.format !== 'wav') {
+        throw new Error(`${engine.displayName} returned ${audio.format} audio, which cannot be joined`);
       }
-      
-      throw error;
+
+      primaryEngine = primaryEngine || engine;
+      clips.push(audio.buffer);
+      sources.push(audio.filePath);
+      voices.push(`${(segment.language || 'default').toUpperCase()}: ${audio.voiceInfo}`);
+      steps.push(...segmentSteps);
+      allCached = allCached && audio.cacheHit === true;
     }
+
+    const echo = primaryEngine!.getCapabilities().echo ? resolveEchoSettings(options.echo) : null;
+    const filePath = this.storeJoinedAudio(sources, () => concatPcm(clips.map((clip, index) =>
+      trimSilence(decodeWav(clip), { start: index > 0, end: index < clips.length - 1 })
+    )), echo);
+
+    return {
+      result: {
+        engine: primaryEngine!.name,
+        success: true,
+        voiceInfo: voices.join(' | '),
+        fallbackSteps: steps,
+        fallbackReason: this.describeFallback(steps),
+        cacheHit: allCached,
+        format: 'wav',
+        filePath,
+        duration: Date.now() - startTime,
+      },
+      play: () => playAudioFile(filePath),
+    };
   }
 
   /**
-   * Synthesize using OpenAI engine
+   * Synthesize long text chunk by chunk with limited concurrency; every chunk retries and falls back on its own
+   * The chunks are streamed into one stdin player as they become ready, so playback starts with the first chunk
+   * and has no start-up gaps between chunks; without a stdin player they are joined into one clip first
    */
-  private async synthesizeWithOpenAI(
-    text: string, 
-    options: HybridVoiceOptions, 
+  private async prepareChunked(
+    chunks: string[],
+    options: HybridVoiceOptions,
     startTime: number
-  ): Promise<VoiceEngineResponse> {
-    
-    const openaiOptions: OpenAIVoiceOptions = {
-      voice: options.openaiVoice,
-      model: options.openaiModel,
-      speed: options.openaiSpeed,
-      echo: options.echo,
+  ): Promise<PreparedUtterance<VoiceEngineResponse>> {
+    const chain = this.getEngineChain(options);
+    const concurrency = this.getChunkOptions(chain[0]).concurrency;
+    // Echo goes over the joined audio, not each chunk
+    const chunkOptions: HybridVoiceOptions = { ...options, echo: false, format: 'wav' };
+    const chunkSteps: FallbackStep[][] = [];
+    let stopped = false;
+
+    const rendered = runWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      if (stopped) throw new SpeechCancelledError();
+
+      const { value: audio, engine, steps } = await this.fallbackChain.run(chain, candidate => candidate.synthesizeToBuffer(chunk, chunkOptions));
+      chunkSteps[index] = steps;
+      if (audio.format !== 'wav') {
+        throw new Error(`${engine.displayName} returned ${audio.format} audio, which cannot be joined`);
+      }
+      return { audio, engine };
+    });
+    // Failures surface when playback reaches the chunk
+    rendered.forEach(chunk => chunk.catch(() => {}));
+
+    let first: { audio: SynthesizedAudio; engine: VoiceEngine };
+    try {
+      first = await rendered[0];
+    } catch (error) {
+      stopped = true;
+      throw error;
+    }
+
+    const echo = first.engine.getCapabilities().echo ? resolveEchoSettings(options.echo) : null;
+    const player = await findStreamPlayer('pcm');
+
+    // Until the joined clip exists, the first chunk stands in for the utterance's audio
+    const result: VoiceEngineResponse = {
+      engine: first.engine.name,
+      success: true,
+      voiceInfo: first.audio.voiceInfo,
+      cacheHit: first.audio.cacheHit,
+      format: 'wav',
+      filePath: first.audio.filePath,
+      duration: Date.now() - startTime,
+      chunks: chunks.length,
     };
+    const recordSteps = () => {
+      const steps = chunkSteps.flat();
+      result.fallbackSteps = steps;
+      result.fallbackReason = this.describeFallback(steps);
+    };
+    recordSteps();
 
-    const response = await this.openaiEngine.synthesizeVoice(text, openaiOptions);
-    const duration = Date.now() - startTime;
+    const parts: PcmAudio[] = [];
+    const sources: string[] = [];
+    const nextChunk = async (index: number): Promise<PcmAudio> => {
+      try {
+        const { audio } = await rendered[index];
+        result.cacheHit = result.cacheHit === true && audio.cacheHit === true;
+        sources.push(audio.filePath);
+        // Edge silence between chunks would read as a pause mid-sentence
+        const part = trimSilence(decodeWav(audio.buffer), { start: index > 0, end: index < rendered.length - 1 });
+        parts.push(part);
+        return part;
+      } catch (error) {
+        stopped = true;
+        throw error;
+      } finally {
+        recordSteps();
+      }
+    };
+    const storeJoined = () => {
+      result.filePath = this.storeJoinedAudio(sources, () => concatPcm(parts), echo);
+      return result.filePath;
+    };
+
+    async function* streamed(): AsyncGenerator<Uint8Array> {
+      const mixer = echo ? createStreamingEcho(echo) : null;
+      for (let index = 0; index < rendered.length; index++) {
+        const part = await nextChunk(index);
+        const pcm = encodePcm16(part.sampleRate === OPENAI_PCM_SAMPLE_RATE && part.channels === 1
+          ? part
+          : convertPcm(part, OPENAI_PCM_SAMPLE_RATE, 1));
+        yield mixer ? mixer.process(pcm) : pcm;
+      }
+      if (mixer) yield mixer.flush();
+      storeJoined();
+    }
 
     return {
-      engine: 'openai',
-      success: response.success,
-      voiceInfo: this.openaiEngine.getVoiceInfo(response.voiceUsed),
-      openaiDetails: response,
-      duration,
-      error: response.error,
+      result,
+      play: () => {
+        const playback = player
+          ? startPlayback(player, streamed())
+          : playSequence(async index => {
+            if (index > 0) return null;
+            for (let chunk = 0; chunk < rendered.length; chunk++) await nextChunk(chunk);
+            return storeJoined();
+          });
+        return {
+          ...playback,
+          stop: () => {
+            stopped = true;
+            playback.stop();
+          },
+        };
+      },
     };
   }
 
   /**
-   * Synthesize using platform engine
+   * Store audio joined from other cached files in the segment cache, with the echo applied
+   * `join` only runs on a cache miss
    */
-  private async synthesizeWithPlatform(
-    text: string, 
-    options: HybridVoiceOptions, 
-    startTime: number,
-    fallbackError?: Error
-  ): Promise<VoiceEngineResponse> {
-    const command = this.voiceIntelligence.getVoiceCommand(text, options.language);
-    const voiceInfo = this.voiceIntelligence.getUsedVoiceInfo(options.language);
+  private storeJoinedAudio(sources: string[], join: () => PcmAudio, echo: EchoSettings | null): string {
+    const key = SynthesisCache.key({ sources: sources.join('|'), delay: echo?.delay, volumes: echo?.volumes.join(',') });
+    const cached = this.segmentCache.get(key, 'wav');
+    if (cached) return cached;
 
-    return new Promise((resolve, reject) => {
-      const { exec } = require('child_process');
-      
-      exec(command, (error: any, stdout: any, stderr: any) => {
-        const duration = Date.now() - startTime;
-        
-        if (error) {
-          reject(new Error(`Platform synthesis failed: ${error.message}`));
-          return;
-        }
-        
-        resolve({
-          engine: 'platform',
+    const joined = join();
+    return this.segmentCache.put(key, 'wav', encodeWav(echo ? applyEcho(joined, echo) : joined));
+  }
+
+  /**
+   * Speak an SSML document along the engine chain
+   * Engines reading SSML natively get the whole document; the others get it rendered by chunks
+   */
+  private async prepareSsml(
+    nodes: SsmlNode[],
+    text: string,
+    options: HybridVoiceOptions,
+    startTime: number
+  ): Promise<PreparedUtterance<VoiceEngineResponse>> {
+    const { value: prepared, steps } = await this.fallbackChain.run(this.getEngineChain(options), async engine => {
+      const nativeOptions = this.getNativeSsmlOptions(engine, nodes, options);
+      if (nativeOptions) {
+        return this.prepareWithEngine(engine, text, nativeOptions, startTime);
+      }
+
+      const rendered = await this.renderSsml(engine, nodes, options);
+      return {
+        result: {
+          engine: engine.name,
           success: true,
-          voiceInfo,
-          duration,
-          error: fallbackError ? `Fallback after OpenAI error: ${fallbackError.message}` : undefined,
-        });
-      });
+          voiceInfo: rendered.voiceInfo,
+          cacheHit: rendered.cacheHit,
+          format: 'wav',
+          filePath: rendered.filePath,
+          duration: Date.now() - startTime,
+        },
+        play: () => playAudioFile(rendered.filePath),
+      };
     });
+
+    prepared.result.fallbackSteps = steps;
+    prepared.result.fallbackReason = this.describeFallback(steps);
+    return prepared;
   }
 
   /**
-   * Get information about voice that will be used
+   * Options for passing the whole document to an engine that reads SSML natively,
+   * or null when it must be rendered by chunks (no native SSML, or <lang> switches voices)
    */
-  getUsedVoiceInfo(options: HybridVoiceOptions = {}): string {
-    const selectedEngine = this.selectEngine(options);
+  private getNativeSsmlOptions(engine: VoiceEngine, nodes: SsmlNode[], options: HybridVoiceOptions): HybridVoiceOptions | null {
+    if (!engine.getCapabilities().ssml) return null;
+
+    const languages = new Set(nodes.map(node => node.type === 'text' ? node.language || options.language : options.language));
+    if (languages.size > 1) return null;
+
+    const [language] = Array.from(languages);
+    return language ? { ...options, language } : options;
+  }
+
+  /**
+   * Render SSML chunk by chunk into one WAV: breaks become inserted silence, each <lang> run
+   * gets its own voice, rate maps to speed and volume/emphasis to gain for engines without native prosody
+   */
+  private async renderSsml(
+    engine: VoiceEngine,
+    nodes: SsmlNode[],
+    options: HybridVoiceOptions
+  ): Promise<{ filePath: string; buffer: Buffer; voiceInfo: string; cacheHit: boolean }> {
+    const native = engine.getCapabilities().ssml;
+    const parts: Array<() => PcmAudio> = [];
+    const sources: string[] = [];
+    const voices = new Set<string>();
+    let allCached = true;
+
+    for (const chunk of chunkSsml(nodes)) {
+      if (chunk.type === 'break') {
+        sources.push(`break:${chunk.ms}`);
+        parts.push(() => createSilence(chunk.ms));
+        continue;
+      }
+
+      // Echo goes over the joined clip, not each chunk
+      const chunkOptions: HybridVoiceOptions = { ...options, language: chunk.language || options.language, echo: false, format: 'wav' };
+      if (!native && chunk.prosody.rate !== 1) {
+        chunkOptions.openaiSpeed = (options.openaiSpeed || getVoiceConfig().defaults.speed) * chunk.prosody.rate;
+      }
+      const chunkText = native ? toSsmlMarkup([chunk], chunkOptions.language) : chunk.text;
+      const audio = await engine.synthesizeToBuffer(chunkText, chunkOptions);
+      if (audio.format !== 'wav') {
+        throw new Error(`${engine.displayName} returned ${audio.format} audio, which cannot be joined`);
+      }
+
+      const gain = native ? 1 : getProsodyGain(chunk.prosody);
+      sources.push(`${audio.filePath}@${gain}`);
+      parts.push(() => applyGain(trimSilence(decodeWav(audio.buffer), { start: true, end: true }), gain));
+      voices.add(audio.voiceInfo);
+      allCached = allCached && audio.cacheHit === true;
+    }
+
+    const echo = engine.getCapabilities().echo ? resolveEchoSettings(options.echo) : null;
+    const filePath = this.storeJoinedAudio(sources, () => concatPcm(parts.map(part => part())), echo);
+
+    return {
+      filePath,
+      buffer: fs.readFileSync(filePath),
+      voiceInfo: `${Array.from(voices).join(' | ')} (SSML)`,
+      cacheHit: allCached,
+    };
+  }
+
+  /**
+   * Synthesize speech into a file instead of playing it
+   * Echo is opt-in for exports and can only be baked into WAV files
+   */
+  async exportVoice(
+    text: string,
+    outputPath: string,
+    format?: ExportFormat,
+    options: HybridVoiceOptions = {}
+  ): Promise<AudioExportResult> {
+    const echo = options.echo === undefined ? null : resolveEchoSettings(options.echo);
+    const spokenText = isSsml(text) ? text : this.expandText(stripLanguageMarkup(this.normalizeText(text, options)), options.language, options);
+    const { value: result, steps } = await this.fallbackChain.run(
+      this.getEngineChain(options),
+      engine => this.exportWithEngine(engine, spokenText, outputPath, format, options, echo)
+    );
+
+    result.fallbackReason = this.describeFallback(steps);
+    return result;
+  }
+
+  private async exportWithEngine(
+    engine: VoiceEngine,
+    text: string,
+    outputPath: string,
+    requestedFormat: ExportFormat | undefined,
+    options: HybridVoiceOptions,
+    echo: EchoSettings | null
+  ): Promise<AudioExportResult> {
+    const supportedFormats = engine.getCapabilities().exportFormats;
+    const format = resolveExportFormat(outputPath, requestedFormat, supportedFormats[0] as ExportFormat);
+
+    if (!supportedFormats.includes(format)) {
+      throw new Error(`${engine.displayName} TTS cannot export ${format}; supported: ${supportedFormats.join(', ')}`);
+    }
+    if (echo && format !== 'wav') {
+      throw new Error('Echo can only be baked into WAV exports');
+    }
+
+    // Echo is baked in here, uniformly for every engine
+    const audio = await this.synthesizeForExport(engine, text, { ...options, echo: false, format });
+    const filePath = prepareExportPath(outputPath, format);
+    fs.writeFileSync(filePath, audio.buffer);
 
-    if (selectedEngine === 'openai') {
-      const voice = options.openaiVoice || 'nova';
-      return `OpenAI ${this.openaiEngine.getVoiceInfo(voice)}`;
-    } else {
-      return `Platform ${this.voiceIntelligence.getUsedVoiceInfo(options.language)}`;
+    if (echo) {
+      bakeEchoIntoWav(filePath, echo);
     }
+
+    return {
+      engine: engine.name,
+      voiceInfo: audio.voiceInfo,
+      filePath,
+      format,
+      echoApplied: echo !== null,
+      ...describeExportedFile(filePath, format),
+    };
+  }
+
+  /**
+   * Render export audio; SSML an engine cannot read natively, and text over the engine's
+   * input limit, are rendered by chunks into WAV
+   */
+  private async synthesizeForExport(engine: VoiceEngine, text: string, options: HybridVoiceOptions): Promise<{ buffer: Buffer; voiceInfo: string }> {
+    if (!isSsml(text)) {
+      const limit = engine.getCapabilities().maxInputChars;
+      if (!limit || text.length <= limit) {
+        return engine.synthesizeToBuffer(text, options);
+      }
+      if (options.format !== 'wav') {
+        throw new Error(`${engine.displayName} TTS can only export text over ${limit} characters as wav`);
+      }
+
+      const chunkOptions = this.getChunkOptions(engine);
+      const chunks = splitIntoChunks(text, { ...chunkOptions, firstChunkChars: chunkOptions.maxChars });
+      const clips = await Promise.all(runWithConcurrency(chunks, chunkOptions.concurrency, chunk => engine.synthesizeToBuffer(chunk, options)));
+      return {
+        buffer: encodeWav(concatPcm(clips.map(clip => decodeWav(clip.buffer)))),
+        voiceInfo: clips[0].voiceInfo,
+      };
+    }
+
+    const nodes = parseSsml(text);
+    const nativeOptions = this.getNativeSsmlOptions(engine, nodes, options);
+    if (nativeOptions) {
+      return engine.synthesizeToBuffer(text, nativeOptions);
+    }
+    if (options.format !== 'wav') {
+      throw new Error(`${engine.displayName} TTS can only export SSML as wav`);
+    }
+    return this.renderSsml(engine, nodes, options);
+  }
+
+  /**
+   * Predict whether an utterance will be served from the synthesis cache
+   * Returns null when the selected engine has no cache
+   */
+  getCacheStatus(text: string, options: HybridVoiceOptions = {}): 'hit' | 'miss' | null {
+    const engine = this.selectEngine(options);
+    if (!engine.isCached) return null;
+
+    const spokenText = isSsml(text) ? text : this.expandText(stripLanguageMarkup(this.normalizeText(text, options)), options.language, options);
+    return engine.isCached(spokenText, options) ? 'hit' : 'miss';
+  }
+
+  /**
+   * Get information about voice that will be used
+   */
+  getUsedVoiceInfo(options: HybridVoiceOptions = {}): string {
+    const engine = this.selectEngine(options);
+    return `${engine.displayName} ${engine.describeVoice(options)}`;
   }
 
   /**
    * Get engine status for diagnostics
    */
-  getEngineStatus(): { platform: boolean; openai: boolean; preferred: string } {
+  getEngineStatus(): EngineStatus {
+    const preferred = this.registry.select(getVoiceConfig().defaults.engine);
     return {
-      platform: true, // Platform engine is always available
-      openai: this.isOpenAIAvailable(),
-      preferred: this.preferOpenAI ? 'openai' : 'platform',
+      engines: this.registry.list().map(engine => ({
+        name: engine.name,
+        displayName: engine.displayName,
+        available: engine.isEngineAvailable(),
+        priority: engine.priority,
+      })),
+      preferred: preferred ? preferred.name : 'none',
+      circuits: this.fallbackChain.getCircuitStatus(),
     };
   }
 
@@ -0,0 +1,179 @@
+/**
+ * Voice Engine - Common contract for pluggable TTS backends
+ * Every backend (platform voices, OpenAI, ...) implements VoiceEngine and
+ * registers with the VoiceEngineRegistry; the selector only talks to this interface
+ */
+
+import { VoiceInfo } from './voice-intelligence.js';
+import { PlaybackHandle } from './audio-playback.js';
+import { QueueMode } from './speech-queue.js';
+import { Emotion, EmotionStyle } from './voice-emotions.js';
+
+export interface EchoOptions {
+  delay?: number;     // ms delay (default: the default echo preset's delay)
+  volume?: number | number[];    // echo volume 0-1 (default: the default echo preset's volume) - można podać tablicę dla każdego echa
+  repeats?: number;   // liczba powtórzeń (default: the default echo preset's repeats)
+}
+
+/**
+ * Ranges of the engine-neutral prosody options; values outside are clamped
+ */
+export const PROSODY_RANGES = {
+  rate: { minimum: 0.25, maximum: 4.0, default: 1.0 },  // Speed multiplier
+  pitch: { minimum: -12, maximum: 12, default: 0 },     // Semitones from the voice's own pitch
+  volume: { minimum: 0, maximum: 1, default: 1 },       // Fraction of full volume
+} as const;
+
+export type ProsodyOption = keyof typeof PROSODY_RANGES;
+
+export function clampProsody(option: ProsodyOption, value: number): number {
+  const { minimum, maximum } = PROSODY_RANGES[option];
+  return Math.max(minimum, Math.min(maximum, value));
+}
+
+export interface HybridVoiceOptions {
+  // Engine selection by registered name (e.g. "platform", "openai")
+  engine?: string;
+
+  // Traditional system options
+  language?: string;
+
+  // Voice id on the selected engine; engines that do not know the id use their default
+  voice?: string;
+
+  // Engine-neutral prosody (see PROSODY_RANGES); engine-specific options such as openaiSpeed win
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+
+  // Expressive style; the selector resolves it into each engine's settings
+  emotion?: Emotion;
+  emotionStyle?: EmotionStyle;
+
+  // Echo effect options, or an echo preset name
+  echo?: boolean | string | EchoOptions;
+
+  // Speech queue behaviour (default: enqueue)
+  queueMode?: QueueMode;
+
+  // Split mixed-language text into per-language segments (default: true)
+  mixedLanguage?: boolean;
+
+  // Clean up markdown, code, URLs, emoji and number formats before speaking (default: TTS_NORMALIZE)
+  normalize?: boolean;
+
+  // Preferred audio format for buffered synthesis
+  format?: string;
+
+  // Pipe audio into the player as it arrives (default: TTS_STREAMING)
+  stream?: boolean;
+
+  // OpenAI-specific options
+  useOpenAI?: boolean; // Legacy alias: true = engine "openai", false = engine "platform"
+  openaiVoice?: string;
+  openaiModel?: string;
+  openaiSpeed?: number;
+
+  // Piper-specific options
+  piperVoice?: string; // Model id, or "model:speaker" for multi-speaker models
+}
+
+export interface EngineCapabilities {
+  offline: boolean;         // Works without network access
+  echo: boolean;            // Renders echo into synthesized audio
+  ssml: boolean;            // Reads the SSML subset natively; others get it rendered chunk by chunk
+  exportFormats: string[];  // Formats synthesizeToBuffer can produce, default first
+  maxInputChars?: number;   // Longest text one synthesis request accepts
+}
+
+/**
+ * Audio rendered by an engine, with an on-disk copy ready for playback
+ */
+export interface SynthesizedAudio {
+  buffer: Buffer;
+  format: string;
+  filePath: string;
+  voiceInfo: string;
+  echoApplied: boolean;
+  cacheHit?: boolean;
+}
+
+/**
+ * Synthesis whose audio is played while it is still being received
+ */
+export interface AudioStream {
+  format: string;   // Format of the cached file at filePath, not of the bytes on the wire
+  voiceInfo: string;
+  echoApplied: boolean;
+  filePath: string; // Where the complete audio is cached once the stream finishes
+  play(): PlaybackHandle;
+}
+
+/**
+ * Synthesis failure raised by an engine
+ * `transient` marks errors worth retrying on the same engine (rate limits, 5xx, timeouts)
+ */
+export class EngineError extends Error {
+  public readonly transient: boolean;
+  public readonly status?: number;
+
+  constructor(message: string, transient: boolean = false, status?: number) {
+    super(message);
+    this.name = 'EngineError';
+    this.transient = transient;
+    this.status = status;
+  }
+}
+
+export interface VoiceEngine {
+  readonly name: string;        // Registry key used for selection
+  readonly displayName: string; // Human-readable label, e.g. "OpenAI"
+  readonly priority: number;    // Higher wins in automatic selection
+
+  initialize(): Promise<void>;
+  isEngineAvailable(): boolean;
+  listVoices(): VoiceInfo[];
+  getSupportedLanguages(): string[];
+  getCapabilities(): EngineCapabilities;
+
+  /**
+   * Tool schema properties this engine contributes to `say`
+   */
+  getSchemaFragment(): Record<string, any>;
+
+  /**
+   * Describe the voice that would be used for these options
+   */
+  describeVoice(options: HybridVoiceOptions): string;
+
+  /**
+   * Id of the voice these options select; null when the system default voice is used
+   */
+  resolveVoiceId(options: HybridVoiceOptions): string | null;
+
+  /**
+   * Model and speed multiplier (1 = normal) these options render with
+   */
+  resolveRendering(options: HybridVoiceOptions): { model?: string; speed: number };
+
+  /**
+   * Render speech to audio without playing it; throws on failure
+   */
+  synthesizeToBuffer(text: string, options: HybridVoiceOptions): Promise<SynthesizedAudio>;
+
+  /**
+   * Speak directly through a native player, for engines that synthesize while playing
+   */
+  speak?(text: string, options: HybridVoiceOptions): PlaybackHandle;
+
+  /**
+   * Start a streamed synthesis, resolving once the request was accepted so errors can still fall back
+   * Returns null when the request should be served buffered (streaming off, cached, no stream player)
+   */
+  openStream?(text: string, options: HybridVoiceOptions): Promise<AudioStream | null>;
+
+  /**
+   * Check whether audio for these options is already cached
+   */
+  isCached?(text: string, options: HybridVoiceOptions): boolean;
+}
@@ -6,6 +6,10 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as os from 'os';
+import * as path from 'path';
+import { isSsml, parseSsml, toSayEmbeddedCommands, toSsmlMarkup } from './ssml.js';
+import { ProcessCommand } from './audio-playback.js';
+import { getVoiceConfig } from './voice-config.js';
 
 const execAsync = promisify(exec);
 
@@ -14,8 +18,33 @@ export interface VoiceInfo {
   name: string;
   language: string;
   languageCode: string;
+  locale?: string;    // Regional code as the engine reports it, e.g. "pl_PL", "en-us"
   quality?: 'enhanced' | 'premium' | 'standard';
   gender?: 'male' | 'female';
+  novelty?: boolean;  // MacinTalk effects voice (Zarvox, Bells, ...) rather than a natural one
+}
+
+// MacinTalk novelty voices, see EMOTIONAL_VOICE_GUIDE.md (older names included)
+const NOVELTY_VOICES = [
+  'Albert', 'Bad News', 'Bahh', 'Bells', 'Boing', 'Bubbles', 'Cellos', 'Good News', 'Jester', 'Organ',
+  'Superstar', 'Trinoids', 'Whisper', 'Wobble', 'Zarvox', 'Deranged', 'Hysterical', 'Pipe Organ', 'Princess',
+];
+
+export type PlatformExportFormat = 'wav' | 'aiff';
+
+/**
+ * Synthesizer settings in each platform's own units; unset values keep the platform default
+ */
+export interface PlatformVoiceStyle {
+  voice?: string;          // Installed voice id or name
+  wordsPerMinute?: number; // say -r, espeak -s
+  pitch?: number;          // espeak -p (0-99, default 50)
+  amplitude?: number;      // espeak -a (0-200, default 100)
+  pitchShift?: number;     // say [[pbas +N]], relative to the voice's base pitch
+  sayVolume?: number;      // say [[volm]] (0-1)
+  variant?: string;        // espeak voice variant, e.g. "whisper", "f2"
+  sapiRate?: number;       // SAPI Rate (-10 to 10)
+  sapiVolume?: number;     // SAPI Volume (0-100)
 }
 
 export interface LanguageVoiceMapping {
@@ -25,6 +54,26 @@ export interface LanguageVoiceMapping {
   };
 }
 
+/**
+ * Quality first; within the same quality the configured gender preference (male by default)
+ */
+function compareVoices(a: VoiceInfo, b: VoiceInfo): number {
+  const qualityOrder = { premium: 3, enhanced: 2, standard: 1 };
+  const aQuality = qualityOrder[a.quality || 'standard'];
+  const bQuality = qualityOrder[b.quality || 'standard'];
+
+  // Primary: Quality wins everything
+  if (aQuality !== bQuality) return bQuality - aQuality;
+
+  // Secondary: Within same quality, prefer the configured gender
+  const preferred = getVoiceConfig().defaults.preferGender;
+  if (preferred === 'none') return 0;
+  if (a.gender === preferred && b.gender !== preferred) return -1;
+  if (a.gender !== preferred && b.gender === preferred) return 1;
+
+  return 0;
+}
+
 export class VoiceIntelligence {
   private platform: string;
   private availableVoices: VoiceInfo[] = [];
@@ -87,8 +136,10 @@ export class VoiceIntelligence {
             name: voiceNamePart.trim(),
             language: this.getLanguageName(languageCode),
             languageCode: languageCode,
+            locale: langCode,
             quality: this.detectVoiceQuality(qualityIndicator || '', comment),
-            gender: this.detectGender(voiceId)
+            gender: this.detectGender(voiceId),
+            novelty: NOVELTY_VOICES.includes(voiceId)
           };
 
           this.availableVoices.push(voiceInfo);
@@ -109,7 +160,7 @@ export class VoiceIntelligence {
         $synth = New-Object System.Speech.Synthesis.SpeechSynthesizer
         $synth.GetInstalledVoices() | ForEach-Object {
           $voice = $_.VoiceInfo
-          Write-Output "$($voice.Name)|$($voice.Culture.TwoLetterISOLanguageName)|$($voice.Gender)"
+          Write-Output "$($voice.Name)|$($voice.Culture.TwoLetterISOLanguageName)|$($voice.Gender)|$($voice.Culture.Name)"
         }
       `;
       
@@ -117,13 +168,14 @@ export class VoiceIntelligence {
       const lines = stdout.split('\n').filter(line => line.trim());
 
       for (const line of lines) {
-        const [name, langCode, gender] = line.split('|');
+        const [name, langCode, gender, locale] = line.split('|');
         if (name && langCode) {
           const voiceInfo: VoiceInfo = {
             id: name,
             name: name,
             language: this.getLanguageName(langCode),
             languageCode: langCode,
+            locale: locale?.trim() || undefined,
             quality: 'standard',
             gender: gender?.toLowerCase() as 'male' | 'female'
           };
@@ -154,6 +206,7 @@ export class VoiceIntelligence {
             name: parts[1],
             language: this.getLanguageName(langCode),
             languageCode: langCode,
+            locale: parts[1],
             quality: 'standard',
             gender: parts[2]?.includes('F') ? 'female' : 'male'
           };
@@ -184,20 +237,7 @@ export class VoiceIntelligence {
     // Select best voice for each language using quality-first algorithm
     for (const [langCode, voices] of Object.entries(languageGroups)) {
       // GDD v2.3: Quality-first sorting with gender preference as tiebreaker
-      const sortedVoices = voices.sort((a, b) => {
-        const qualityOrder = { premium: 3, enhanced: 2, standard: 1 };
-        const aQuality = qualityOrder[a.quality || 'standard'];
-        const bQuality = qualityOrder[b.quality || 'standard'];
-        
-        // Primary: Quality wins everything
-        if (aQuality !== bQuality) return bQuality - aQuality;
-        
-        // Secondary: Within same quality, prefer male voices (Claude is masculine)
-        if (a.gender === 'male' && b.gender !== 'male') return -1;
-        if (a.gender !== 'male' && b.gender === 'male') return 1;
-        
-        return 0;
-      });
+      const sortedVoices = voices.sort(compareVoices);
 
       // Special case for English: Always ensure we have a voice (fallback to first available)
       if (langCode === 'en' && sortedVoices.length === 0) {
@@ -257,6 +297,13 @@ export class VoiceIntelligence {
     return languages[code] || code.toUpperCase();
   }
 
+  /**
+   * Get all discovered voices
+   */
+  getAvailableVoices(): VoiceInfo[] {
+    return this.availableVoices;
+  }
+
   /**
    * Get supported languages for tool schema
    */
@@ -268,13 +315,22 @@ export class VoiceIntelligence {
    * Get best voice for a language
    */
   getBestVoiceForLanguage(languageCode: string): VoiceInfo | null {
-    return this.languageMapping[languageCode]?.bestVoice || null;
+    const mapping = this.languageMapping[languageCode];
+    if (!mapping) return null;
+
+    // Re-ranked on lookup so a reloaded gender preference applies without rediscovery
+    return [mapping.bestVoice, ...mapping.alternativeVoices].sort(compareVoices)[0] || null;
   }
 
   /**
    * Get information about the voice that will be used for synthesis
    */
-  getUsedVoiceInfo(languageCode?: string): string {
+  getUsedVoiceInfo(languageCode?: string, voiceName?: string): string {
+    const namedVoice = voiceName ? this.findVoiceByName(voiceName) : null;
+    if (namedVoice) {
+      return namedVoice.name;
+    }
+
     if (languageCode) {
       // Easter egg: Check if it's a voice name first
       if (this.isVoiceName(languageCode)) {
@@ -314,9 +370,9 @@ export class VoiceIntelligence {
   }
 
   /**
-   * Find voice by exact name match (macOS only)
+   * Find an installed voice by exact id or name
    */
-  private findVoiceByName(voiceName: string): VoiceInfo | null {
+  findVoiceByName(voiceName: string): VoiceInfo | null {
     return this.availableVoices.find(voice => 
       voice.id.toLowerCase() === voiceName.toLowerCase() ||
       voice.name.toLowerCase() === voiceName.toLowerCase()
@@ -325,64 +381,186 @@ export class VoiceIntelligence {
 
   /**
    * Get optimal voice command for platform
+   * Text and voice names are passed as arguments (SAPI: environment variables), never through a shell
    */
-  getVoiceCommand(text: string, languageCode?: string): string {
-    const sanitizedText = this.sanitizeText(text);
-    
+  getVoiceCommand(text: string, languageCode?: string, style: PlatformVoiceStyle = {}): ProcessCommand {
+    const ssmlText = this.renderSsml(text, languageCode);
+    const spokenText = ssmlText ?? this.flattenText(text);
+
+    switch (this.platform) {
+      case 'darwin':
+        return { file: 'say', args: [...this.getSayArgs(languageCode, style), this.asArgument(this.getSayPrefix(style) + spokenText)] };
+
+      case 'win32':
+        return this.getSapiCommand(`$synth.${ssmlText ? 'SpeakSsml' : 'Speak'}($env:NEXUS_VOICE_TEXT)`, spokenText, languageCode, style);
+
+      case 'linux':
+        return { file: 'espeak', args: [...(ssmlText ? ['-m'] : []), ...this.getEspeakArgs(languageCode, style), this.asArgument(spokenText)] };
+
+      default:
+        throw new Error(`Unsupported platform: ${this.platform}`);
+    }
+  }
+
+  /**
+   * Get command that renders speech to an audio file instead of the speakers
+   * The output path is resolved and passed as an argument (SAPI: environment variable)
+   */
+  getExportCommand(text: string, outputPath: string, languageCode?: string, format: PlatformExportFormat = 'wav', style: PlatformVoiceStyle = {}): ProcessCommand {
+    const ssmlText = this.renderSsml(text, languageCode);
+    const spokenText = ssmlText ?? this.flattenText(text);
+    const filePath = path.resolve(outputPath);
+
     switch (this.platform) {
       case 'darwin': {
-        if (languageCode) {
-          // Easter egg: If it's longer than 2 chars, treat as voice name
-          if (this.isVoiceName(languageCode)) {
-            const specificVoice = this.findVoiceByName(languageCode);
-            if (specificVoice) {
-              return `say -v "${specificVoice.id}" "${sanitizedText}"`;
-            }
-            // If voice not found, fall through to default
-          } else {
-            // Standard language code handling
-            const voice = this.getBestVoiceForLanguage(languageCode);
-            if (voice) {
-              return `say -v "${voice.id}" "${sanitizedText}"`;
-            }
-          }
-        }
-        return `say "${sanitizedText}"`;
+        // say writes AIFF by default; WAV needs an explicit container and sample format
+        const formatArgs = format === 'wav' ? ['--file-format=WAVE', '--data-format=LEI16@22050'] : [];
+        return {
+          file: 'say',
+          args: [...this.getSayArgs(languageCode, style), ...formatArgs, '-o', filePath, this.asArgument(this.getSayPrefix(style) + spokenText)],
+        };
       }
-      
+
       case 'win32': {
-        let script = `Add-Type -AssemblyName System.Speech; $synth = New-Object System.Speech.Synthesis.SpeechSynthesizer;`;
-        if (languageCode) {
-          const voice = this.getBestVoiceForLanguage(languageCode);
-          if (voice) {
-            script += ` $synth.SelectVoice('${voice.id}');`;
-          }
-        }
-        script += ` $synth.Speak('${sanitizedText}')`;
-        return `powershell -Command "${script}"`;
-      }
-      
-      case 'linux': {
-        if (languageCode) {
-          return `espeak -v ${languageCode} "${sanitizedText}"`;
-        }
-        return `espeak "${sanitizedText}"`;
+        const script = `$synth.SetOutputToWaveFile($env:NEXUS_VOICE_OUTPUT); $synth.${ssmlText ? 'SpeakSsml' : 'Speak'}($env:NEXUS_VOICE_TEXT); $synth.Dispose()`;
+        const command = this.getSapiCommand(script, spokenText, languageCode, style);
+        return { ...command, env: { ...command.env, NEXUS_VOICE_OUTPUT: filePath } };
       }
-      
+
+      case 'linux':
+        return { file: 'espeak', args: [...(ssmlText ? ['-m'] : []), ...this.getEspeakArgs(languageCode, style), '-w', filePath, this.asArgument(spokenText)] };
+
       default:
         throw new Error(`Unsupported platform: ${this.platform}`);
     }
   }
 
   /**
-   * Sanitize text for command line
+   * `say` voice and rate arguments
+   */
+  private getSayArgs(languageCode: string | undefined, style: PlatformVoiceStyle): string[] {
+    const voice = this.resolveVoice(languageCode, style.voice);
+    const args = voice ? ['-v', voice.id] : [];
+    if (style.wordsPerMinute !== undefined) {
+      args.push('-r', String(Math.round(style.wordsPerMinute)));
+    }
+    return args;
+  }
+
+  /**
+   * `say` embedded commands for pitch and volume, which have no command-line flags
+   */
+  private getSayPrefix(style: PlatformVoiceStyle): string {
+    let prefix = '';
+    if (style.pitchShift) {
+      prefix += `[[pbas ${style.pitchShift > 0 ? '+' : ''}${style.pitchShift.toFixed(1)}]] `;
+    }
+    if (style.sayVolume !== undefined) {
+      prefix += `[[volm ${style.sayVolume.toFixed(2)}]] `;
+    }
+    return prefix;
+  }
+
+  /**
+   * PowerShell running a SAPI script; text and voice come from environment variables,
+   * so nothing user-supplied is ever parsed as PowerShell
+   */
+  private getSapiCommand(action: string, text: string, languageCode: string | undefined, style: PlatformVoiceStyle): ProcessCommand {
+    const env: Record<string, string> = { NEXUS_VOICE_TEXT: text };
+    let script = `Add-Type -AssemblyName System.Speech; $synth = New-Object System.Speech.Synthesis.SpeechSynthesizer;`;
+    const voice = this.resolveVoice(languageCode, style.voice);
+    if (voice) {
+      script += ` $synth.SelectVoice($env:NEXUS_VOICE_NAME);`;
+      env.NEXUS_VOICE_NAME = voice.id;
+    }
+    if (style.sapiRate !== undefined) {
+      script += ` $synth.Rate = ${Math.round(style.sapiRate)};`;
+    }
+    if (style.sapiVolume !== undefined) {
+      script += ` $synth.Volume = ${Math.round(style.sapiVolume)};`;
+    }
+    return { file: 'powershell', args: ['-NoProfile', '-NonInteractive', '-Command', `${script} ${action}`], env };
+  }
+
+  /**
+   * espeak voice (with variant), speed, pitch and amplitude arguments
+   */
+  private getEspeakArgs(languageCode: string | undefined, style: PlatformVoiceStyle): string[] {
+    let voice = (style.voice && this.findVoiceByName(style.voice)?.id) || languageCode;
+    if (style.variant) {
+      voice = `${voice || 'en'}+${style.variant}`;
+    }
+
+    const args = voice ? ['-v', voice] : [];
+    if (style.wordsPerMinute !== undefined) {
+      args.push('-s', String(Math.round(style.wordsPerMinute)));
+    }
+    if (style.pitch !== undefined) {
+      args.push('-p', String(Math.round(style.pitch)));
+    }
+    if (style.amplitude !== undefined) {
+      args.push('-a', String(Math.round(style.amplitude)));
+    }
+    return args;
+  }
+
+  /**
+   * Text as the final argument; a leading dash would be read as an option
+   */
+  private asArgument(text: string): string {
+    return text.startsWith('-') ? ` ${text}` : text;
+  }
+
+  /**
+   * Audio file formats the platform engine can export
+   */
+  getExportFormats(): PlatformExportFormat[] {
+    return this.platform === 'darwin' ? ['aiff', 'wav'] : ['wav'];
+  }
+
+  /**
+   * Resolve a voice: an explicit installed voice name, else the best voice for the language
+   * (or, on macOS, the easter egg voice name passed as the language)
+   */
+  resolveVoice(languageCode?: string, voiceName?: string): VoiceInfo | null {
+    const namedVoice = voiceName ? this.findVoiceByName(voiceName) : null;
+    if (namedVoice) return namedVoice;
+    if (!languageCode) return null;
+
+    // Easter egg: If it's longer than 2 chars, treat as voice name
+    if (this.isVoiceName(languageCode)) {
+      // If voice not found, fall back to default
+      return this.findVoiceByName(languageCode);
+    }
+
+    // Standard language code handling
+    return this.getBestVoiceForLanguage(languageCode);
+  }
+
+  /**
+   * Translate SSML into the platform synthesizer's markup, on a single line
+   * macOS gets embedded [[...]] commands; SAPI SpeakSsml and espeak -m read SSML directly
+   * Returns null for plain text
+   */
+  private renderSsml(text: string, languageCode?: string): string | null {
+    if (!isSsml(text)) return null;
+
+    const nodes = parseSsml(text);
+    const language = languageCode && !this.isVoiceName(languageCode) ? languageCode : undefined;
+    switch (this.platform) {
+      case 'darwin':
+        return this.flattenText(toSayEmbeddedCommands(nodes));
+      case 'win32':
+        return toSsmlMarkup(nodes, language, true).replace(/\s+/g, ' ');
+      default:
+        return toSsmlMarkup(nodes, language).replace(/\s+/g, ' ');
+    }
+  }
+
+  /**
+   * Text on a single line, as one command argument
    */
-  private sanitizeText(text: string): string {
-    return text
-      .replace(/"/g, '\\"')
-      .replace(/'/g, "\\'")
-      .replace(/\n/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+  private flattenText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
   }
 }
@@ -0,0 +1,147 @@
+/**
+ * Voice Personas - Named bundles of engine, voices, speed and echo
+ * Built-in personas can be replaced or extended from a JSON file; explicit `say`
+ * arguments always win over the persona's values
+ *
+ * {
+ *   "narrator": { "engine": "openai", "voices": { "en": "fable", "pl": "onyx" }, "fallbackVoice": "alloy", "speed": 0.9, "echo": true }
+ * }
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { HybridVoiceOptions, EchoOptions } from './voice-engine.js';
+
+export interface VoicePersona {
+  name: string;
+  description?: string;
+  engine?: string;                  // Preferred engine; the usual fallback applies when it is unavailable
+  voices?: Record<string, string>;  // Language code -> voice id on that engine
+  fallbackVoice?: string;           // Voice for languages without an entry
+  speed?: number;                   // 0.25 to 4.0
+  echo?: boolean | string | EchoOptions;  // On/off, an echo preset name, or custom echo options
+}
+
+export const DEFAULT_PERSONAS: Record<string, VoicePersona> = {
+  narrator: {
+    name: 'narrator',
+    description: 'Unhurried storytelling voice for walkthroughs and summaries',
+    engine: 'openai',
+    voices: { en: 'fable' },
+    fallbackVoice: 'onyx',
+    speed: 0.9,
+    echo: true,
+  },
+  alert: {
+    name: 'alert',
+    description: 'Clear, quick and dry - for warnings and failures that need attention',
+    engine: 'openai',
+    voices: { en: 'nova' },
+    fallbackVoice: 'nova',
+    speed: 1.15,
+    echo: false,
+  },
+  casual: {
+    name: 'casual',
+    description: 'Relaxed everyday voice for quick reactions',
+    engine: 'openai',
+    voices: { en: 'alloy' },
+    fallbackVoice: 'shimmer',
+    speed: 1.05,
+    echo: true,
+  },
+};
+
+/**
+ * Persona file location: TTS_PERSONAS_PATH, or personas.json in the XDG config directory
+ */
+export function getPersonasPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.TTS_PERSONAS_PATH) {
+    return env.TTS_PERSONAS_PATH.replace(/^~(?=$|[\\/])/, os.homedir());
+  }
+  const configHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'mcp-nexus-voice', 'personas.json');
+}
+
+/**
+ * Built-in personas merged with the persona file; a file persona replaces a built-in one of the same name
+ * An unreadable or invalid file leaves the built-ins and reports why
+ */
+export function loadPersonas(filePath: string = getPersonasPath()): { personas: Record<string, VoicePersona>; error: string | null } {
+  const personas: Record<string, VoicePersona> = { ...DEFAULT_PERSONAS };
+  if (!fs.existsSync(filePath)) {
+    return { personas, error: null };
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, Omit<VoicePersona, 'name'>>;
+    for (const [name, persona] of Object.entries(data)) {
+      personas[name] = validatePersona(name, persona);
+    }
+    return { personas, error: null };
+  } catch (error) {
+    return { personas: { ...DEFAULT_PERSONAS }, error: `${filePath}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Fill in persona values the caller did not set explicitly
+ * Runs after language detection, so the voice follows the language actually spoken
+ */
+export function applyPersona(persona: VoicePersona, options: HybridVoiceOptions): HybridVoiceOptions {
+  const resolved: HybridVoiceOptions = { ...options };
+
+  // useOpenAI is an explicit engine choice too
+  if (resolved.engine === undefined && resolved.useOpenAI === undefined && persona.engine) {
+    resolved.engine = persona.engine;
+  }
+  if (resolved.voice === undefined) {
+    const language = resolved.language?.toLowerCase().split(/[-_]/)[0];
+    resolved.voice = (language && persona.voices?.[language]) || persona.fallbackVoice;
+  }
+  // An emotion brings its own pace
+  if (resolved.rate === undefined && resolved.openaiSpeed === undefined && resolved.emotion === undefined && persona.speed !== undefined) {
+    resolved.rate = persona.speed;
+  }
+  if (resolved.echo === undefined && persona.echo !== undefined) {
+    resolved.echo = persona.echo;
+  }
+  return resolved;
+}
+
+/**
+ * Check a persona from the file, naming the persona and field on failure
+ */
+function validatePersona(name: string, persona: unknown): VoicePersona {
+  if (typeof persona !== 'object' || persona === null || Array.isArray(persona)) {
+    throw new Error(`persona "${name}" must be an object`);
+  }
+  const { description, engine, voices, fallbackVoice, speed, echo } = persona as Record<string, unknown>;
+
+  for (const [field, value] of Object.entries({ description, engine, fallbackVoice })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`persona "${name}": ${field} must be a string`);
+    }
+  }
+  if (voices !== undefined && (typeof voices !== 'object' || voices === null
+      || Object.values(voices).some(voice => typeof voice !== 'string'))) {
+    throw new Error(`persona "${name}": voices must map language codes to voice ids`);
+  }
+  if (speed !== undefined && (typeof speed !== 'number' || speed < 0.25 || speed > 4)) {
+    throw new Error(`persona "${name}": speed must be a number from 0.25 to 4.0`);
+  }
+  if (echo !== undefined && typeof echo !== 'boolean' && typeof echo !== 'string' && (typeof echo !== 'object' || echo === null)) {
+    throw new Error(`persona "${name}": echo must be true, false, an echo preset name or echo options`);
+  }
+
+  return {
+    name,
+    description: description as string | undefined,
+    engine: engine as string | undefined,
+    voices: voices as Record<string, string> | undefined,
+    fallbackVoice: fallbackVoice as string | undefined,
+    speed: speed as number | undefined,
+    echo: echo as boolean | string | EchoOptions | undefined,
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FallbackChain, FallbackChainOptions, FallbackExhaustedError, describeFallbackSteps, isTransientError, loadFallbackChainOptions } from '../src/fallback-chain.js';
+import { EngineError, VoiceEngine } from '../src/voice-engine.js';
+
+const OPTIONS: FallbackChainOptions = { order: [], retries: 2, retryBaseDelayMs: 0, failureThreshold: 2, cooldownMs: 60000 };
+
+function fakeEngine(name: string): VoiceEngine {
+  return { name, displayName: name.toUpperCase() } as VoiceEngine;
+}
+
+describe('loadFallbackChainOptions', () => {
+  it('uses the defaults without environment settings', () => {
+    assert.deepEqual(loadFallbackChainOptions({}), { order: [], retries: 2, retryBaseDelayMs: 500, failureThreshold: 3, cooldownMs: 60000 });
+  });
+
+  it('reads the chain order and ignores invalid numbers', () => {
+    const options = loadFallbackChainOptions({ TTS_FALLBACK_CHAIN: ' OpenAI, piper ,,platform', TTS_RETRY_ATTEMPTS: '-1', TTS_CIRCUIT_BREAKER_THRESHOLD: '0' });
+    assert.deepEqual(options.order, ['openai', 'piper', 'platform']);
+    assert.equal(options.retries, 2);
+    assert.equal(options.failureThreshold, 1);
+  });
+});
+
+describe('isTransientError', () => {
+  it('trusts the engine error flag', () => {
+    assert.equal(isTransientError(new EngineError('rate limited', true, 429)), true);
+    assert.equal(isTransientError(new EngineError('Request timed out', false, 400)), false);
+  });
+
+  it('treats timeouts and dropped connections as transient', () => {
+    assert.equal(isTransientError(new Error('connect ETIMEDOUT')), true);
+    assert.equal(isTransientError(new Error('socket ECONNRESET')), true);
+    assert.equal(isTransientError(new Error('Invalid API key')), false);
+  });
+});
+
+describe('FallbackChain', () => {
+  const openai = fakeEngine('openai');
+  const piper = fakeEngine('piper');
+  const platform = fakeEngine('platform');
+
+  it('puts the selected engine first, then the configured order', () => {
+    assert.deepEqual(new FallbackChain(OPTIONS).order(piper, [openai, piper, platform]), [piper, openai, platform]);
+    const chain = new FallbackChain({ ...OPTIONS, order: ['platform', 'missing'] });
+    assert.deepEqual(chain.order(openai, [openai, piper, platform]), [openai, platform]);
+  });
+
+  it('retries transient errors on the same engine', async () => {
+    let calls = 0;
+    const result = await new FallbackChain(OPTIONS).run([openai, platform], async engine => {
+      calls++;
+      if (calls < 3) throw new EngineError('server error', true, 500);
+      return engine.name;
+    });
+    assert.equal(result.value, 'openai');
+    assert.deepEqual(result.steps, [{ engine: 'openai', outcome: 'succeeded', attempts: 3 }]);
+  });
+
+  it('falls back to the next engine on a permanent error', async () => {
+    const result = await new FallbackChain(OPTIONS).run([openai, platform], async engine => {
+      if (engine === openai) throw new EngineError('Invalid API key', false, 401);
+      return engine.name;
+    });
+    assert.equal(result.engine, platform);
+    assert.equal(describeFallbackSteps(result.steps, name => name.toUpperCase()), 'OPENAI error: Invalid API key');
+  });
+
+  it('skips an engine with an open circuit but always attempts the last one', async () => {
+    const chain = new FallbackChain(OPTIONS);
+    const failing = async (engine: VoiceEngine) => {
+      if (engine === openai) throw new Error('Invalid API key');
+      return engine.name;
+    };
+    await chain.run([openai, platform], failing);
+    await chain.run([openai, platform], failing);
+
+    const skipped = await chain.run([openai, platform], failing);
+    assert.equal(skipped.steps[0].outcome, 'skipped');
+    assert.equal(chain.getCircuitStatus()[0].consecutiveFailures, 2);
+
+    await assert.rejects(chain.run([openai], failing), FallbackExhaustedError);
+  });
+
+  it('reports every failure when the chain is exhausted', async () => {
+    const error = await new FallbackChain({ ...OPTIONS, retries: 0 }).run([openai, platform], async engine => {
+      throw new Error(`${engine.name} down`);
+    }).catch(caught => caught);
+    assert.ok(error instanceof FallbackExhaustedError);
+    assert.equal(error.message, 'All engines failed: openai: openai down; platform: platform down');
+  });
+});
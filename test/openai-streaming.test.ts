@@ -0,0 +1,93 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAIVoiceEngine } from '../src/openai-voice-engine.js';
+
+const ENGINE_NAME = `stream-test-${process.pid}`;
+const CACHE_DIRECTORY = path.join(os.tmpdir(), `mcp-nexus-voice-${ENGINE_NAME}`);
+
+/**
+ * Engine whose API answers with a few chunks of silent 16-bit PCM
+ */
+function createEngine(requests: Array<Record<string, unknown>>): OpenAIVoiceEngine {
+  const engine = new OpenAIVoiceEngine({ name: ENGINE_NAME, apiKey: 'test-key' });
+  const create = async (request: Record<string, unknown>) => {
+    requests.push(request);
+    async function* body(): AsyncGenerator<Uint8Array> {
+      for (let chunk = 0; chunk < 3; chunk++) yield new Uint8Array(4800);
+    }
+    return { body: body() };
+  };
+  (engine as unknown as { openai: unknown }).openai = { audio: { speech: { create } } };
+  return engine;
+}
+
+describe('OpenAIVoiceEngine.openStream', () => {
+  const environment = { ...process.env };
+
+  before(() => {
+    process.env.TTS_STREAM_PLAYER_COMMAND = 'cat > /dev/null';
+    delete process.env.TTS_STREAM_FORMAT;
+  });
+
+  after(() => {
+    process.env = environment;
+    fs.rmSync(CACHE_DIRECTORY, { recursive: true, force: true });
+  });
+
+  it('does not stream unless asked to', async () => {
+    assert.equal(await createEngine([]).openStream('Hello', { stream: false }), null);
+  });
+
+  it('streams pcm and reports the cached WAV file', async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const engine = createEngine(requests);
+
+    const stream = await engine.openStream('Streamed hello', { stream: true, echo: false });
+    assert.ok(stream);
+    assert.equal(requests[0].response_format, 'pcm');
+    assert.equal(stream.format, 'wav');
+    assert.equal(path.extname(stream.filePath), '.wav');
+
+    await stream.play().done;
+
+    const cached = fs.readFileSync(stream.filePath);
+    assert.equal(cached.subarray(0, 4).toString('ascii'), 'RIFF');
+    assert.equal(cached.subarray(8, 12).toString('ascii'), 'WAVE');
+  });
+
+  it('plays a completed stream from the cache next time', async () => {
+    const requests: Array<Record<string, unknown>> = [];
+    const engine = createEngine(requests);
+
+    assert.equal(await engine.openStream('Streamed hello', { stream: true, echo: false }), null);
+    assert.equal(requests.length, 0);
+  });
+
+  it('caches the echoed mix next to the raw audio', async () => {
+    const engine = createEngine([]);
+
+    const stream = await engine.openStream('Echoed hello', { stream: true, echo: 'subtle' });
+    assert.ok(stream);
+    assert.equal(stream.echoApplied, true);
+    await stream.play().done;
+
+    assert.equal(fs.existsSync(stream.filePath), true);
+    assert.equal(fs.readdirSync(CACHE_DIRECTORY).filter(file => file.endsWith('.wav')).length, 3);
+  });
+
+  it('reports opus when streaming opus', async () => {
+    process.env.TTS_STREAM_FORMAT = 'opus';
+    const requests: Array<Record<string, unknown>> = [];
+
+    const stream = await createEngine(requests).openStream('Opus hello', { stream: true, echo: false });
+    assert.ok(stream);
+    assert.equal(requests[0].response_format, 'opus');
+    assert.equal(stream.format, 'opus');
+    assert.equal(path.extname(stream.filePath), '.opus');
+    await stream.play().done;
+    assert.equal(fs.existsSync(stream.filePath), true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { asSsml, chunkSsml, isSsml, parseSsml, ssmlToPlainText, toSayEmbeddedCommands, toSsmlMarkup } from '../src/ssml.js';
+
+describe('isSsml', () => {
+  it('accepts text that starts with <speak>', () => {
+    assert.equal(isSsml('<speak>Hello</speak>'), true);
+    assert.equal(isSsml('\n  <SPEAK xml:lang="de">Hallo</SPEAK>'), true);
+  });
+
+  it('leaves tags mentioned in prose or code as plain text', () => {
+    assert.equal(isSsml('Use <break time="1s"/> tags for pauses'), false);
+    assert.equal(isSsml('const tag = "<speak>";'), false);
+  });
+
+  it('wraps explicit fragments once', () => {
+    assert.equal(asSsml('Done <break/> next'), '<speak>Done <break/> next</speak>');
+    assert.equal(asSsml('<speak>Done</speak>'), '<speak>Done</speak>');
+  });
+});
+
+describe('parseSsml', () => {
+  it('flattens breaks, prosody and languages', () => {
+    const nodes = parseSsml('<speak>Build <break time="500ms"/><prosody rate="slow" volume="loud">done</prosody> <lang xml:lang="de-DE">Danke</lang></speak>');
+    assert.deepEqual(nodes, [
+      { type: 'text', text: 'Build ', prosody: { rate: 1, pitch: 0, volume: 1 }, language: undefined },
+      { type: 'break', ms: 500 },
+      { type: 'text', text: 'done', prosody: { rate: 0.75, pitch: 0, volume: 1.5 }, language: undefined },
+      { type: 'text', text: ' ', prosody: { rate: 1, pitch: 0, volume: 1 }, language: undefined },
+      { type: 'text', text: 'Danke', prosody: { rate: 1, pitch: 0, volume: 1 }, language: 'de' },
+    ]);
+  });
+
+  it('caps break times and maps strengths', () => {
+    const nodes = parseSsml('<speak>a<break time="60s"/>b<break strength="weak"/>c</speak>');
+    assert.deepEqual(nodes.filter(node => node.type === 'break'), [{ type: 'break', ms: 10000 }, { type: 'break', ms: 250 }]);
+  });
+
+  it('applies say-as to the enclosed text', () => {
+    const nodes = parseSsml('<speak><say-as interpret-as="characters">MCP</say-as> <say-as interpret-as="digits">42</say-as></speak>');
+    assert.equal(ssmlToPlainText(nodes), 'M C P 4 2');
+  });
+
+  it('decodes named, decimal and hex entities', () => {
+    assert.equal(ssmlToPlainText(parseSsml('<speak>&lt;a&gt; &amp; &#65;&#x42;&#X43; &amp;#68;</speak>')), '<a> & ABC &#68;');
+  });
+
+  it('keeps numeric entities beyond the Unicode range literal', () => {
+    assert.equal(ssmlToPlainText(parseSsml('<speak>&#99999999; &#x110000;</speak>')), '&#99999999; &#x110000;');
+  });
+});
+
+describe('rendering', () => {
+  const nodes = parseSsml('<speak>Hi <break time="1s"/><prosody rate="150%">fast</prosody></speak>');
+
+  it('merges neighbouring runs with the same prosody into chunks', () => {
+    assert.deepEqual(chunkSsml(parseSsml('<speak>one <emphasis>two</emphasis> three</speak>')).map(chunk => chunk.type === 'text' ? chunk.text : chunk.ms), ['one', 'two', 'three']);
+  });
+
+  it('translates to macOS embedded commands', () => {
+    assert.equal(toSayEmbeddedCommands(nodes), 'Hi [[slnc 1000]] [[rate 263]]fast');
+  });
+
+  it('renders normalized markup for native SSML engines', () => {
+    assert.equal(toSsmlMarkup(nodes, 'en'), "<speak xml:lang='en'>Hi <break time='1000ms'/><prosody rate='150%'>fast</prosody></speak>");
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SynthesisCache, holdCacheEviction } from '../src/synthesis-cache.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SynthesisCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'synthesis-cache-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Write an entry directly, last used `ageMs` ago
+   */
+  function seed(cache: SynthesisCache, key: string, size: number, ageMs: number): string {
+    const filePath = cache.entryPath(key, 'mp3');
+    fs.writeFileSync(filePath, Buffer.alloc(size));
+    const lastUsed = new Date(Date.now() - ageMs);
+    fs.utimesSync(filePath, lastUsed, lastUsed);
+    return filePath;
+  }
+
+  it('builds the same key regardless of part order', () => {
+    assert.equal(SynthesisCache.key({ text: 'hi', voice: 'alloy', speed: 1 }), SynthesisCache.key({ speed: 1, voice: 'alloy', text: 'hi' }));
+    assert.notEqual(SynthesisCache.key({ text: 'hi' }), SynthesisCache.key({ text: 'hi!' }));
+  });
+
+  it('drops least recently used entries until under the size limit', () => {
+    const cache = new SynthesisCache(directory, { maxBytes: 250, maxAgeMs: HOUR_MS });
+    const oldest = seed(cache, 'oldest', 100, 3000);
+    const older = seed(cache, 'older', 100, 2000);
+    const recent = seed(cache, 'recent', 100, 1000);
+
+    const stored = cache.put('new', 'mp3', Buffer.alloc(100));
+
+    assert.deepEqual([oldest, older, recent, stored].map(filePath => fs.existsSync(filePath)), [false, false, true, true]);
+  });
+
+  it('drops expired entries even under the size limit', () => {
+    const cache = new SynthesisCache(directory, { maxBytes: 1024, maxAgeMs: HOUR_MS });
+    const expired = seed(cache, 'expired', 10, 2 * HOUR_MS);
+    const fresh = seed(cache, 'fresh', 10, 1000);
+
+    cache.evict();
+
+    assert.equal(fs.existsSync(expired), false);
+    assert.equal(fs.existsSync(fresh), true);
+  });
+
+  it('refreshes the last-used time on a hit', () => {
+    const cache = new SynthesisCache(directory, { maxBytes: 150, maxAgeMs: HOUR_MS });
+    const used = seed(cache, 'used', 100, 2000);
+    const unused = seed(cache, 'unused', 100, 1000);
+
+    assert.equal(cache.get('used', 'mp3'), used);
+    cache.evict();
+
+    assert.equal(fs.existsSync(used), true);
+    assert.equal(fs.existsSync(unused), false);
+  });
+
+  it('defers eviction until the last hold is released', () => {
+    const cache = new SynthesisCache(directory, { maxBytes: 0, maxAgeMs: HOUR_MS });
+    const queued = seed(cache, 'queued', 100, 1000);
+
+    const releaseFirst = holdCacheEviction();
+    const releaseSecond = holdCacheEviction();
+    cache.evict();
+    releaseFirst();
+    releaseFirst();
+    assert.equal(fs.existsSync(queued), true);
+
+    releaseSecond();
+    assert.equal(fs.existsSync(queued), false);
+  });
+
+  it('reads limits on every eviction', () => {
+    let maxBytes = 1024;
+    const cache = new SynthesisCache(directory, () => ({ maxBytes, maxAgeMs: HOUR_MS }));
+    const entry = seed(cache, 'entry', 100, 1000);
+
+    cache.evict();
+    assert.equal(fs.existsSync(entry), true);
+
+    maxBytes = 50;
+    cache.evict();
+    assert.equal(fs.existsSync(entry), false);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TextChunkOptions, loadChunkOptions, runWithConcurrency, splitIntoChunks } from '../src/text-chunker.js';
+
+const OPTIONS: TextChunkOptions = { maxChars: 60, firstChunkChars: 20, concurrency: 2 };
+
+describe('loadChunkOptions', () => {
+  it('uses the defaults without environment settings', () => {
+    assert.deepEqual(loadChunkOptions(undefined, {}), { maxChars: 1000, firstChunkChars: 200, concurrency: 2 });
+  });
+
+  it('caps the chunk size at the engine limit', () => {
+    const options = loadChunkOptions(150, { TTS_CHUNK_MAX_CHARS: '500', TTS_FIRST_CHUNK_CHARS: '300', TTS_CHUNK_CONCURRENCY: '0' });
+    assert.deepEqual(options, { maxChars: 150, firstChunkChars: 150, concurrency: 2 });
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('returns text that fits as a single chunk', () => {
+    assert.deepEqual(splitIntoChunks('  Short text.  ', OPTIONS), ['Short text.']);
+    assert.deepEqual(splitIntoChunks('   ', OPTIONS), []);
+  });
+
+  it('ends chunks at sentence boundaries with a short first chunk', () => {
+    const text = 'First one here. Second sentence is a bit longer. Third sentence follows it. Fourth ends.';
+    assert.deepEqual(splitIntoChunks(text, OPTIONS), [
+      'First one here.',
+      'Second sentence is a bit longer. Third sentence follows it.',
+      'Fourth ends.',
+    ]);
+  });
+
+  it('prefers paragraph ends once a chunk is reasonably full', () => {
+    const text = 'A paragraph that is long enough to stand alone.\n\nAnother paragraph right after it, also long.';
+    assert.deepEqual(splitIntoChunks(text, OPTIONS), [
+      'A paragraph that is long enough to stand alone.',
+      'Another paragraph right after it, also long.',
+    ]);
+  });
+
+  it('breaks oversized sentences at clauses, words and then characters', () => {
+    const options = { maxChars: 12, firstChunkChars: 12, concurrency: 1 };
+    const chunks = splitIntoChunks('alpha beta, gamma delta epsilon, Supercalifragilistic', options);
+    assert.ok(chunks.every(chunk => chunk.length <= 12), JSON.stringify(chunks));
+    assert.deepEqual(chunks, ['alpha beta,', 'gamma delta', 'epsilon,', 'Supercalifra', 'gilistic']);
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('keeps at most the limit running and returns results in item order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = runWithConcurrency([30, 10, 20, 0], 2, async (delay, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return index;
+    });
+
+    assert.deepEqual(await Promise.all(results), [0, 1, 2, 3]);
+    assert.equal(peak, 2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const results = runWithConcurrency(['fail', 'ok'], 1, async item => {
+      if (item === 'fail') throw new Error('synthesis failed');
+      return item;
+    });
+
+    await assert.rejects(results[0], /synthesis failed/);
+    assert.equal(await results[1], 'ok');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NormalizeOptions, expandForSpeech, loadNormalizeOptions, normalizeMarkdown } from '../src/text-normalizer.js';
+
+const OPTIONS: NormalizeOptions = { enabled: true, codeBlocks: 'summarize', emoji: 'drop' };
+
+describe('loadNormalizeOptions', () => {
+  it('normalizes by default and reads the modes', () => {
+    assert.deepEqual(loadNormalizeOptions({}), OPTIONS);
+    assert.deepEqual(loadNormalizeOptions({ TTS_NORMALIZE: 'false', TTS_CODE_BLOCKS: 'skip', TTS_EMOJI: 'name' }), { enabled: false, codeBlocks: 'skip', emoji: 'name' });
+  });
+});
+
+describe('normalizeMarkdown', () => {
+  it('summarizes or skips code blocks', () => {
+    const text = 'Done.\n```ts\na();\nb();\n```\nNext.';
+    assert.equal(normalizeMarkdown(text, 'en', OPTIONS), 'Done.\n\ncode block with 2 lines.\n\nNext.');
+    assert.equal(normalizeMarkdown(text, 'en', { ...OPTIONS, codeBlocks: 'skip' }), 'Done.\n\nNext.');
+  });
+
+  it('strips markdown and ends headings and list items as sentences', () => {
+    assert.equal(normalizeMarkdown('## Summary\n- **Fixed** the _parser_\n- see [docs](https://x.dev)', 'en', OPTIONS), 'Summary.\nFixed the parser.\nsee docs.');
+  });
+
+  it('shortens URLs and file paths but keeps inline code', () => {
+    assert.equal(normalizeMarkdown('See https://github.com/org/repo/pull/42 and src/utils/helper.ts', 'en', OPTIONS), 'See link to github.com and helper.ts');
+    assert.equal(normalizeMarkdown('Call `__init__` now', 'en', OPTIONS), 'Call `__init__` now');
+  });
+
+  it('drops or names emoji', () => {
+    assert.equal(normalizeMarkdown('Shipped 🚀', 'en', OPTIONS), 'Shipped');
+    assert.equal(normalizeMarkdown('Shipped 🚀', 'en', { ...OPTIONS, emoji: 'name' }), 'Shipped rocket');
+  });
+
+  it('leaves text alone when disabled', () => {
+    assert.equal(normalizeMarkdown('**as is**', 'en', { ...OPTIONS, enabled: false }), '**as is**');
+  });
+});
+
+describe('expandForSpeech', () => {
+  it('expands abbreviations per language', () => {
+    assert.equal(expandForSpeech('Use a cache, e.g. Redis', 'en', OPTIONS), 'Use a cache, for example Redis');
+    assert.equal(expandForSpeech('Dane, np. pliki', 'pl', OPTIONS), 'Dane, na przykład pliki');
+    assert.equal(expandForSpeech('Dateien, z.B. Logs', 'de', OPTIONS), 'Dateien, zum Beispiel Logs');
+  });
+
+  it('keeps the period when an abbreviation ends the sentence', () => {
+    assert.equal(expandForSpeech('Logs, traces, etc. Then metrics.', 'en', OPTIONS), 'Logs, traces, et cetera. Then metrics.');
+    assert.equal(expandForSpeech('Set it to min.', 'en', OPTIONS), 'Set it to minimum.');
+    assert.equal(expandForSpeech('Dane, pliki itd. Potem reszta', 'pl', OPTIONS), 'Dane, pliki i tak dalej. Potem reszta');
+  });
+
+  it('reads min. after a number as minutes', () => {
+    assert.equal(expandForSpeech('It took 5 min.', 'en', OPTIONS), 'It took 5 minutes.');
+    assert.equal(expandForSpeech('Wait 2 min. Then go.', 'en', OPTIONS), 'Wait 2 minutes. Then go.');
+    assert.equal(expandForSpeech('Use the min. value', 'en', OPTIONS), 'Use the minimum value');
+  });
+
+  it('pluralizes units, Polish included', () => {
+    assert.equal(expandForSpeech('1 GB, 2.5 GB and 250ms', 'en', OPTIONS), '1 gigabyte, 2.5 gigabytes and 250 milliseconds');
+    assert.equal(expandForSpeech('2 GB, 5 GB, 90 km/h', 'pl', OPTIONS), '2 gigabajty, 5 gigabajtów, 90 kilometrów na godzinę');
+  });
+
+  it('reads a bare s as seconds only after a space', () => {
+    assert.equal(expandForSpeech('Took 5 s.', 'en', OPTIONS), 'Took 5 seconds.');
+    assert.equal(expandForSpeech('Music of the 2020s.', 'en', OPTIONS), 'Music of the 2020s.');
+  });
+
+  it('reads unspaced hyphens and en dashes as ranges, not spaced minus signs', () => {
+    assert.equal(expandForSpeech('Pages 10-20 and 30 – 40', 'en', OPTIONS), 'Pages 10 to 20 and 30 to 40');
+    assert.equal(expandForSpeech('3 - 2 = 1', 'en', OPTIONS), '3 - 2 = 1');
+    assert.equal(expandForSpeech('Due 2025-01-31', 'en', OPTIONS), 'Due 2025-01-31');
+  });
+
+  it('reads versions, dotted numbers and thousands separators', () => {
+    assert.equal(expandForSpeech('Upgrade to v1.2.3 on 10.0.0.1', 'en', OPTIONS), 'Upgrade to version 1 point 2 point 3 on 10 point 0 point 0 point 1');
+    assert.equal(expandForSpeech('1,000,000 rows', 'en', OPTIONS), '1000000 rows');
+    assert.equal(expandForSpeech('1.000 Zeilen, 2.5 s', 'de', OPTIONS), '1000 Zeilen, 2,5 Sekunden');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SegmentOptions, hasLanguageMarkup, removeMarkedSegments, segmentText, stripLanguageMarkup } from '../src/text-segmenter.js';
+
+const LANGUAGES = ['en', 'de', 'pl', 'ru', 'ja'];
+const OPTIONS: SegmentOptions = { auto: true, minConfidence: 0.5, defaultLanguage: 'en' };
+
+/**
+ * Segments as "language: text" lines, which read better in a failed assertion
+ */
+function describeSegments(text: string, options: SegmentOptions = OPTIONS): string[] {
+  return segmentText(text, LANGUAGES, options).map(segment => `${segment.language}: ${segment.text}`);
+}
+
+describe('language markup', () => {
+  it('detects, strips and removes marked segments', () => {
+    const text = 'Open [en]config.json[/en] und dann [de-AT]weiter[/de-AT].';
+    assert.equal(hasLanguageMarkup(text), true);
+    assert.equal(hasLanguageMarkup('Open config.json [not markup]'), false);
+    assert.equal(stripLanguageMarkup(text), 'Open config.json und dann weiter.');
+    assert.equal(removeMarkedSegments(text), 'Open   und dann  .');
+  });
+
+  it('leaves mismatched tags alone', () => {
+    assert.equal(stripLanguageMarkup('[en]text[/de]'), '[en]text[/de]');
+  });
+});
+
+describe('segmentText', () => {
+  it('keeps single-language text in one segment', () => {
+    assert.deepEqual(describeSegments('This is a plain English sentence about the build.'), [
+      'en: This is a plain English sentence about the build.',
+    ]);
+  });
+
+  it('lets markup win and selects regional tags by base language', () => {
+    const segments = segmentText('Please say [de-DE]Guten Morgen[/de-DE] now', LANGUAGES, { ...OPTIONS, auto: false });
+    assert.deepEqual(segments, [
+      { text: 'Please say', language: 'en', source: 'detected' },
+      { text: 'Guten Morgen', language: 'de', source: 'markup' },
+      { text: 'now', language: 'en', source: 'detected' },
+    ]);
+  });
+
+  it('reads code spans in English inside other languages', () => {
+    assert.deepEqual(describeSegments('Bitte führen Sie zuerst den Befehl `npm install` im Projektverzeichnis aus.', { ...OPTIONS, defaultLanguage: 'de' }), [
+      'de: Bitte führen Sie zuerst den Befehl',
+      'en: npm install',
+      'de: im Projektverzeichnis aus.',
+    ]);
+  });
+
+  it('splits prose by sentence and by script', () => {
+    assert.deepEqual(describeSegments('The deployment finished without errors. Die Bereitstellung wurde ohne Fehler abgeschlossen.'), [
+      'en: The deployment finished without errors.',
+      'de: Die Bereitstellung wurde ohne Fehler abgeschlossen.',
+    ]);
+    assert.deepEqual(describeSegments('The greeting is Привет, мир for everyone.'), [
+      'en: The greeting is',
+      'ru: Привет, мир',
+      'en: for everyone.',
+    ]);
+  });
+
+  it('keeps short Latin pieces in the utterance language', () => {
+    assert.deepEqual(describeSegments('Hallo. This sentence is long enough to detect.'), [
+      'en: Hallo. This sentence is long enough to detect.',
+    ]);
+  });
+
+  it('only splits marked text when detection is off', () => {
+    assert.deepEqual(describeSegments('The deployment finished. Die Bereitstellung ist fertig.', { ...OPTIONS, auto: false }), [
+      'en: The deployment finished. Die Bereitstellung ist fertig.',
+    ]);
+  });
+});
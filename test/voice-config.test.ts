@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConfigValidationError,
+  DEFAULT_VOICE_CONFIG,
+  applyConfigChanges,
+  applyEnvOverrides,
+  getConfigPath,
+  loadVoiceConfig,
+  parseVoiceConfig,
+  saveConfigChanges,
+} from '../src/voice-config.js';
+
+describe('getConfigPath', () => {
+  it('prefers --config over TTS_CONFIG_PATH', () => {
+    const env = { TTS_CONFIG_PATH: '/etc/voice.json' };
+    assert.deepEqual(getConfigPath(['node', 'index.js', '--config', '/tmp/a.json'], env), { path: '/tmp/a.json', explicit: true });
+    assert.deepEqual(getConfigPath(['node', 'index.js', '--config=/tmp/b.json'], env), { path: '/tmp/b.json', explicit: true });
+    assert.deepEqual(getConfigPath(['node', 'index.js'], env), { path: '/etc/voice.json', explicit: false });
+  });
+
+  it('resolves a relative TTS_CONFIG_PATH against the config directory', () => {
+    assert.equal(getConfigPath([], { XDG_CONFIG_HOME: '/xdg', TTS_CONFIG_PATH: 'work.json' }).path, '/xdg/mcp-nexus-voice/work.json');
+    assert.equal(getConfigPath([], { TTS_CONFIG_PATH: '~/voice.json' }).path, path.join(os.homedir(), 'voice.json'));
+  });
+
+  it('falls back to config.json in the XDG config directory', () => {
+    assert.equal(getConfigPath([], { XDG_CONFIG_HOME: '/xdg' }).path, '/xdg/mcp-nexus-voice/config.json');
+    assert.equal(getConfigPath([], {}).path, path.join(os.homedir(), '.config', 'mcp-nexus-voice', 'config.json'));
+  });
+});
+
+describe('parseVoiceConfig', () => {
+  it('fills everything missing from the defaults', () => {
+    assert.deepEqual(parseVoiceConfig({}), DEFAULT_VOICE_CONFIG);
+  });
+
+  it('reads every section', () => {
+    const config = parseVoiceConfig({
+      defaults: { engine: 'Piper', voices: { EN: 'en_US-ryan-high' }, speed: 1.2, echo: 'hall' },
+      engines: { fallbackChain: [' OpenAI', 'platform'] },
+      echoPresets: { hall: { delay: 180 } },
+      retention: { historySize: 10.4 },
+    });
+    assert.equal(config.defaults.engine, 'piper');
+    assert.deepEqual(config.defaults.voices, { en: 'en_US-ryan-high' });
+    assert.equal(config.defaults.echo, 'hall');
+    assert.deepEqual(config.engines.fallbackChain, ['openai', 'platform']);
+    assert.deepEqual(config.echoPresets.hall, { ...DEFAULT_VOICE_CONFIG.echoPresets.signature, delay: 180 });
+    assert.equal(config.retention.historySize, 10);
+  });
+
+  it('collects every problem with its path', () => {
+    assert.throws(
+      () => parseVoiceConfig({ defaults: { speed: 9, echo: 'missing' }, retention: { cacheMaxMb: 'lots' }, extra: true }),
+      (error: unknown) => error instanceof ConfigValidationError && error.problems.length === 4
+        && error.problems.some(problem => problem.startsWith('defaults.speed'))
+        && error.problems.some(problem => problem.startsWith('defaults.echo'))
+        && error.problems.some(problem => problem.startsWith('retention.cacheMaxMb'))
+    );
+  });
+});
+
+describe('config precedence', () => {
+  const file = parseVoiceConfig({ defaults: { speed: 1.5, voices: { en: 'ryan', pl: 'zosia' } }, retention: { cacheMaxMb: 50 } });
+
+  it('lets environment variables override the file', () => {
+    const config = applyEnvOverrides(file, { DEFAULT_TTS_SPEED: '2', TTS_CACHE_MAX_MB: '10', CLEANUP_INTERVAL_HOURS: '12', TTS_FALLBACK_CHAIN: 'piper,platform' });
+    assert.equal(config.defaults.speed, 2);
+    assert.equal(config.retention.cacheMaxMb, 10);
+    assert.equal(config.retention.cacheMaxAgeHours, 12);
+    assert.deepEqual(config.engines.fallbackChain, ['piper', 'platform']);
+  });
+
+  it('ignores unparseable environment values', () => {
+    assert.equal(applyEnvOverrides(file, { DEFAULT_TTS_SPEED: 'fast' }).defaults.speed, 1.5);
+    assert.equal(applyEnvOverrides(file, { DEFAULT_TTS_SPEED: '10' }).defaults.speed, 1.5);
+  });
+
+  it('lets session changes override everything, merging voices per language', () => {
+    const config = applyConfigChanges(applyEnvOverrides(file, { DEFAULT_TTS_SPEED: '2' }), { speed: 0.8, voices: { en: null, de: 'anna' }, fallback: false });
+    assert.equal(config.defaults.speed, 0.8);
+    assert.deepEqual(config.defaults.voices, { pl: 'zosia', de: 'anna' });
+    assert.equal(config.engines.fallback, false);
+    assert.deepEqual(file.defaults.voices, { en: 'ryan', pl: 'zosia' });
+  });
+});
+
+describe('config file', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'voice-config-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('uses the defaults for a missing file unless it was named explicitly', () => {
+    const filePath = path.join(directory, 'config.json');
+    assert.equal(loadVoiceConfig(filePath), DEFAULT_VOICE_CONFIG);
+    assert.throws(() => loadVoiceConfig(filePath, true), /file not found/);
+  });
+
+  it('reports the file path with invalid JSON', () => {
+    const filePath = path.join(directory, 'config.json');
+    fs.writeFileSync(filePath, '{ "defaults": ');
+    assert.throws(() => loadVoiceConfig(filePath), new RegExp(`${filePath}: `));
+  });
+
+  it('saves changes while keeping the rest of the file', () => {
+    const filePath = path.join(directory, 'config.json');
+    fs.writeFileSync(filePath, JSON.stringify({ defaults: { voices: { en: 'ryan' } }, retention: { historySize: 5 } }));
+
+    saveConfigChanges(filePath, { engine: 'piper', voices: { en: null, pl: 'zosia' } });
+
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), { defaults: { voices: { pl: 'zosia' }, engine: 'piper' }, retention: { historySize: 5 } });
+  });
+
+  it('refuses to save changes that would not load', () => {
+    const filePath = path.join(directory, 'config.json');
+    fs.writeFileSync(filePath, '{}');
+    assert.throws(() => saveConfigChanges(filePath, { speed: 9 }), /not saved/);
+    assert.equal(fs.readFileSync(filePath, 'utf8'), '{}');
+  });
+});